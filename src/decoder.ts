@@ -0,0 +1,354 @@
+import { Either } from './either';
+
+/** Single decoding failure with the JSON path of the offending value */
+export interface DecodeIssue {
+    /** JSON path of the failing value, e.g. `$.items[3].price` */
+    path: string;
+    /** Description of what was expected */
+    message: string;
+}
+
+/** Extracts the decoded type of a Decoder */
+export type Infer<D> = D extends Decoder<infer T> ? T : never;
+
+/** Marker for decoders created with Decoder.optional, whose object keys become optional */
+type OptionalMarker = { readonly isOptional: true };
+
+/** Keys of an object shape whose decoders are optional */
+type OptionalKeys<S> = { [K in keyof S]: S[K] extends OptionalMarker ? K : never }[keyof S];
+
+/** Flattens intersections for readable inferred types */
+type Simplify<T> = { [K in keyof T]: T[K] } & {};
+
+/** Decoded type of an object shape */
+type ObjectOf<S extends Record<string, Decoder<unknown>>> = Simplify<
+    { [K in Exclude<keyof S, OptionalKeys<S>>]: Infer<S[K]> } &
+    { [K in OptionalKeys<S>]?: Infer<S[K]> }
+>;
+
+/** Path segments from the root to the value currently being decoded */
+type Path = readonly (string | number)[];
+
+/** Internal decoding function - accumulates issues instead of stopping at the first one */
+type DecodeFn<T> = (input: unknown, path: Path) => Either<T, DecodeIssue[]>;
+
+/**
+ * Error returned by Decoder.decode, listing every failing value
+ */
+export class DecodeError extends Error {
+    /**
+     * @param issues - Every decoding failure with its JSON path
+     */
+    constructor(public readonly issues: DecodeIssue[]) {
+        super(issues.map(issue => `${issue.path}: ${issue.message}`).join('\n'));
+        this.name = 'DecodeError';
+    }
+}
+
+/**
+ * Renders path segments as a JSON path
+ * @param path - Path segments from the root
+ * @returns JSON path string such as `$.items[3].price`
+ */
+function formatPath(path: Path): string {
+    return path.reduce<string>((acc, segment) => {
+        if (typeof segment === 'number') return `${acc}[${segment}]`;
+        return /^[A-Za-z_$][\w$]*$/.test(segment) ? `${acc}.${segment}` : `${acc}[${JSON.stringify(segment)}]`;
+    }, '$');
+}
+
+/**
+ * Describes a runtime value for issue messages
+ * @param input - Value to describe
+ * @returns Short description such as `null`, `array` or `string`
+ */
+function describe(input: unknown): string {
+    if (input === null) return 'null';
+    if (Array.isArray(input)) return 'array';
+    if (typeof input === 'number' && Number.isNaN(input)) return 'NaN';
+    return typeof input;
+}
+
+/**
+ * Describes a value received by Decoder.literal - primitives are shown as JSON, anything else by its kind
+ * - Never throws, unlike JSON.stringify on BigInt or circular input
+ * @param input - Value to describe
+ * @returns JSON such as `"pending"` or `42`, or a description such as `object`
+ */
+function describeLiteral(input: unknown): string {
+    const isJsonPrimitive = typeof input === 'string' || typeof input === 'boolean'
+        || (typeof input === 'number' && Number.isFinite(input));
+    return isJsonPrimitive ? JSON.stringify(input) : describe(input);
+}
+
+/**
+ * Creates a failed decoding result with a single issue
+ * @param path - Path of the failing value
+ * @param message - Description of what was expected
+ * @returns Either containing the issue
+ */
+function fail(path: Path, message: string): Either<never, DecodeIssue[]> {
+    return Either.Error([{ path: formatPath(path), message }]);
+}
+
+/**
+ * Composable runtime decoder that validates unknown input and infers its static type
+ * @template T - Type of the decoded value
+ */
+export class Decoder<T> {
+    /** Whether object decoders treat this field as optional */
+    public readonly isOptional: boolean = false;
+
+    /**
+     * Private constructor to ensure decoders are created through static methods
+     * @param run - Decoding function receiving the input and its path
+     */
+    private constructor(private readonly run: DecodeFn<T>) { }
+
+    /**
+     * Creates a decoder for values matching a type guard
+     * @template T - Type of the decoded value
+     * @param guard - Type guard for the accepted values
+     * @param expected - Description of the expected value used in issue messages
+     * @returns Decoder<T> - Decoder accepting values that pass the guard
+     */
+    private static fromGuard<T>(guard: (input: unknown) => input is T, expected: string): Decoder<T> {
+        return new Decoder((input, path) => guard(input)
+            ? Either.Ok(input)
+            : fail(path, `expected ${expected}, received ${describe(input)}`));
+    }
+
+    /** Decodes strings */
+    static readonly string: Decoder<string> = Decoder.fromGuard(
+        (input): input is string => typeof input === 'string',
+        'string'
+    );
+
+    /** Decodes finite or infinite numbers, rejecting NaN */
+    static readonly number: Decoder<number> = Decoder.fromGuard(
+        (input): input is number => typeof input === 'number' && !Number.isNaN(input),
+        'number'
+    );
+
+    /** Decodes booleans */
+    static readonly boolean: Decoder<boolean> = Decoder.fromGuard(
+        (input): input is boolean => typeof input === 'boolean',
+        'boolean'
+    );
+
+    /** Accepts any value without validation */
+    static readonly unknown: Decoder<unknown> = new Decoder(input => Either.Ok(input));
+
+    /**
+     * Creates a decoder accepting only the given literal values
+     * @template L - Union of accepted literals
+     * @param values - Accepted literal values
+     * @returns Decoder<L> - Decoder accepting one of the literals
+     * @example
+     * ```typescript
+     * const Status = Decoder.literal('active', 'suspended');
+     * ```
+     */
+    static literal<L extends string | number | boolean | null>(...values: L[]): Decoder<L> {
+        const expected = values.map(value => JSON.stringify(value)).join(' | ');
+        return new Decoder((input, path) => values.includes(input as L)
+            ? Either.Ok(input as L)
+            : fail(path, `expected ${expected}, received ${describeLiteral(input)}`));
+    }
+
+    /**
+     * Creates a decoder for objects with the given shape - unknown keys are dropped
+     * @template S - Record of field decoders
+     * @param shape - Decoder for each field
+     * @returns Decoder of the object, reporting every failing field
+     * @example
+     * ```typescript
+     * const User = Decoder.object({
+     *     id: Decoder.number,
+     *     name: Decoder.string,
+     *     email: Decoder.optional(Decoder.string)
+     * });
+     * type User = Infer<typeof User>; // { id: number; name: string; email?: string }
+     * ```
+     */
+    static object<S extends Record<string, Decoder<unknown>>>(shape: S): Decoder<ObjectOf<S>> {
+        return new Decoder((input, path) => {
+            if (typeof input !== 'object' || input === null || Array.isArray(input)) {
+                return fail(path, `expected object, received ${describe(input)}`);
+            }
+
+            const record = input as Record<string, unknown>;
+            const output: Record<string, unknown> = {};
+            const issues: DecodeIssue[] = [];
+
+            for (const key of Object.keys(shape)) {
+                const decoder = shape[key];
+                if (decoder.isOptional && record[key] === undefined) continue;
+
+                decoder.run(record[key], [...path, key]).fold({
+                    fnOk: value => { output[key] = value; },
+                    fnError: fieldIssues => { issues.push(...fieldIssues); }
+                });
+            }
+
+            return issues.length > 0 ? Either.Error(issues) : Either.Ok(output as ObjectOf<S>);
+        });
+    }
+
+    /**
+     * Creates a decoder for arrays whose items all match the item decoder
+     * @template T - Type of the items
+     * @param item - Decoder for each item
+     * @returns Decoder<T[]> - Decoder reporting every failing item
+     */
+    static array<T>(item: Decoder<T>): Decoder<T[]> {
+        return new Decoder((input, path) => {
+            if (!Array.isArray(input)) {
+                return fail(path, `expected array, received ${describe(input)}`);
+            }
+
+            const output: T[] = [];
+            const issues: DecodeIssue[] = [];
+
+            input.forEach((value, index) => item.run(value, [...path, index]).fold({
+                fnOk: decoded => { output.push(decoded); },
+                fnError: itemIssues => { issues.push(...itemIssues); }
+            }));
+
+            return issues.length > 0 ? Either.Error(issues) : Either.Ok(output);
+        });
+    }
+
+    /**
+     * Creates a decoder for objects used as dictionaries
+     * - Every key is kept as an own property, so a `__proto__` key in untrusted input cannot change the prototype
+     * @template T - Type of the values
+     * @param value - Decoder for each value
+     * @returns Decoder<Record<string, T>> - Decoder reporting every failing entry
+     */
+    static record<T>(value: Decoder<T>): Decoder<Record<string, T>> {
+        return new Decoder((input, path) => {
+            if (typeof input !== 'object' || input === null || Array.isArray(input)) {
+                return fail(path, `expected object, received ${describe(input)}`);
+            }
+
+            const output: Record<string, T> = {};
+            const issues: DecodeIssue[] = [];
+
+            for (const [key, entry] of Object.entries(input)) {
+                value.run(entry, [...path, key]).fold({
+                    fnOk: decoded => {
+                        // defineProperty keeps keys like "__proto__" as own entries instead of setting the prototype
+                        Object.defineProperty(output, key, { value: decoded, writable: true, enumerable: true, configurable: true });
+                    },
+                    fnError: entryIssues => { issues.push(...entryIssues); }
+                });
+            }
+
+            return issues.length > 0 ? Either.Error(issues) : Either.Ok(output);
+        });
+    }
+
+    /**
+     * Creates a decoder accepting the first member decoder that succeeds
+     * @template D - Tuple of member decoders
+     * @param members - Decoders to try in order
+     * @returns Decoder of the union of member types
+     * @example
+     * ```typescript
+     * const Id = Decoder.union(Decoder.string, Decoder.number);
+     * ```
+     */
+    static union<D extends Decoder<unknown>[]>(...members: D): Decoder<Infer<D[number]>> {
+        return new Decoder((input, path) => {
+            const messages: string[] = [];
+
+            for (const member of members) {
+                const result = member.run(input, path);
+                if (result.isOk()) {
+                    return Either.Ok(result.getValue() as Infer<D[number]>);
+                }
+                messages.push(...result.getError().map(issue => issue.message));
+            }
+
+            return fail(path, `no union member matched (${messages.join('; ')})`);
+        });
+    }
+
+    /**
+     * Makes a decoder accept undefined - object keys using it become optional
+     * @template T - Type of the decoded value
+     * @param decoder - Decoder for present values
+     * @returns Decoder<T | undefined> - Decoder also accepting undefined
+     */
+    static optional<T>(decoder: Decoder<T>): Decoder<T | undefined> & OptionalMarker {
+        const optional = new Decoder<T | undefined>((input, path) => input === undefined
+            ? Either.Ok(undefined)
+            : decoder.run(input, path));
+        return Object.assign(optional, { isOptional: true as const });
+    }
+
+    /**
+     * Makes a decoder accept null
+     * @template T - Type of the decoded value
+     * @param decoder - Decoder for non-null values
+     * @returns Decoder<T | null> - Decoder also accepting null
+     */
+    static nullable<T>(decoder: Decoder<T>): Decoder<T | null> {
+        return new Decoder<T | null>((input, path) => input === null
+            ? Either.Ok(null)
+            : decoder.run(input, path));
+    }
+
+    /**
+     * Adds a validation rule to the decoded value
+     * @param predicate - Function to test the decoded value
+     * @param message - Issue message, or a function building it from the value
+     * @returns Decoder<T> - Decoder that also checks the predicate
+     * @example
+     * ```typescript
+     * const Price = Decoder.number.refine(price => price >= 0, 'expected a non-negative price');
+     * ```
+     */
+    public refine(predicate: (value: T) => boolean, message: string | ((value: T) => string)): Decoder<T> {
+        return new Decoder((input, path) => this.run(input, path).flatMap(value => predicate(value)
+            ? Either.Ok(value)
+            : fail(path, typeof message === 'function' ? message(value) : message)));
+    }
+
+    /**
+     * Transforms the decoded value - exceptions thrown by fn are reported as issues
+     * @template U - Type of the transformed value
+     * @param fn - Transformation function to apply to the decoded value
+     * @returns Decoder<U> - Decoder producing the transformed value
+     * @example
+     * ```typescript
+     * const DateFromString = Decoder.string.transform(value => new Date(value));
+     * ```
+     */
+    public transform<U>(fn: (value: T) => U): Decoder<U> {
+        return new Decoder((input, path) => this.run(input, path).flatMap((value): Either<U, DecodeIssue[]> => {
+            try {
+                return Either.Ok(fn(value));
+            } catch (error) {
+                return fail(path, error instanceof Error ? error.message : String(error));
+            }
+        }));
+    }
+
+    /**
+     * Decodes unknown input
+     * @param input - Untrusted value, e.g. parsed JSON
+     * @returns Either<T, DecodeError> - Decoded value, or an error listing every failing path
+     * @example
+     * ```typescript
+     * User.decode(JSON.parse(body)).fold({
+     *     fnOk: (user) => save(user),
+     *     fnError: (error) => console.log(error.issues) // [{ path: '$.email', message: 'expected string, received number' }]
+     * });
+     * ```
+     */
+    public decode(input: unknown): Either<T, DecodeError> {
+        return this.run(input, []).mapError(issues => new DecodeError(issues));
+    }
+}
@@ -0,0 +1,411 @@
+import { Either } from './either';
+import { safeAsync } from './either-types';
+import type { Bound, ErrorHandler } from './either-types';
+
+/** Either, Promise of Either or EitherAsync - anything EitherAsync steps can await */
+export type EitherLike<T, E> = Either<T, E> | PromiseLike<Either<T, E>>;
+
+/**
+ * Interface for pattern matching expressions in EitherAsync fold operations
+ * @template R - Return type of both functions
+ * @template E - Error type
+ * @template T - Success value type
+ */
+interface AsyncFoldExpression<R, E, T> {
+    /** Function to handle error cases */
+    fnError: (error: E) => R | PromiseLike<R>;
+    /** Function to handle success cases */
+    fnOk: (value: T) => R | PromiseLike<R>;
+}
+
+/**
+ * Chainable wrapper around Promise<Either<T, E>> with the same surface as Either
+ * @template T - Type of the success value
+ * @template E - Type of the error value
+ */
+export class EitherAsync<T, E> implements PromiseLike<Either<T, E>> {
+    /**
+     * Private constructor to ensure EitherAsync instances are created through static methods
+     * @param promise - Promise of the wrapped Either
+     */
+    private constructor(private readonly promise: Promise<Either<T, E>>) { }
+
+    /**
+     * Starting point for building a record of named values with bind and let
+     * @example
+     * ```typescript
+     * const result = await EitherAsync.Do
+     *     .bind('user', () => safeAsync({ fn: () => api.getUser(id), ErrClass: ApiError }))
+     *     .let('name', ({ user }) => user.name);
+     * ```
+     */
+    static get Do(): EitherAsync<Record<never, never>, never> {
+        return EitherAsync.Ok({});
+    }
+
+    /**
+     * Creates a successful EitherAsync instance containing a value
+     * @template T - Type of the success value
+     * @param value - The success value to wrap
+     * @returns EitherAsync<T, never> - Success EitherAsync instance
+     * @example
+     * ```typescript
+     * const result = await EitherAsync.Ok(42).run();
+     * console.log(result.getValue()); // 42
+     * ```
+     */
+    static Ok<T>(value: T): EitherAsync<T, never> {
+        return new EitherAsync(Promise.resolve(Either.Ok(value)));
+    }
+
+    /**
+     * Creates a failed EitherAsync instance containing an error
+     * @template E - Type of the error value
+     * @param error - The error value to wrap
+     * @returns EitherAsync<never, E> - Error EitherAsync instance
+     * @example
+     * ```typescript
+     * const result = await EitherAsync.Error(new Error('Failed')).run();
+     * console.log(result.getError().message); // Failed
+     * ```
+     */
+    static Error<E>(error: E): EitherAsync<never, E> {
+        return new EitherAsync(Promise.resolve(Either.Error(error)));
+    }
+
+    /**
+     * Wraps an Either or a Promise of Either (e.g. a safeAsync result)
+     * @template T - Type of the success value
+     * @template E - Type of the error value
+     * @param either - Either, Promise of Either or EitherAsync to wrap
+     * @returns EitherAsync<T, E> - Chainable wrapper
+     * @example
+     * ```typescript
+     * const user = EitherAsync.from(safeAsync({ fn: () => api.getUser(id), ErrClass: ApiError }));
+     * ```
+     */
+    static from<T, E>(either: EitherLike<T, E>): EitherAsync<T, E> {
+        return either instanceof EitherAsync ? either : new EitherAsync(Promise.resolve(either));
+    }
+
+    /**
+     * Wraps a plain Promise, mapping rejections to errors with the given function
+     * @template T - Type of the success value
+     * @template E - Type of the error value
+     * @param promise - Promise-like value to wrap (e.g. the result of Either.toPromise)
+     * @param onRejected - Function that converts the rejection reason to an error
+     * @returns EitherAsync<T, E> - Ok with the resolved value, or Error with the converted reason
+     * @example
+     * ```typescript
+     * const config = EitherAsync.fromPromise(fs.promises.readFile(path, 'utf8'), reason => new ConfigError(String(reason)));
+     * const restored = EitherAsync.fromPromise(either.toPromise(), reason => reason as ValidationError);
+     * ```
+     */
+    static fromPromise<T, E>(promise: PromiseLike<T>, onRejected: (reason: unknown) => E): EitherAsync<T, E> {
+        return new EitherAsync(Promise.resolve(promise).then(
+            value => Either.Ok(value),
+            reason => Either.Error(onRejected(reason))
+        ));
+    }
+
+    /**
+     * Overload for when fn() returns Either<U, V>
+     * @template U - Type of the nested Either's success value
+     * @template V - Type of the nested Either's error value
+     * @template E - Type of the wrapper error (must extend Error)
+     * @param args - Configuration object passed to safeAsync
+     * @returns EitherAsync<U, V | E> - Chainable wrapper with flattened error types
+     */
+    static safe<U, V, E extends Error>(args: {
+        fn: () => PromiseLike<Either<U, V>>;
+    } & ErrorHandler<E>): EitherAsync<U, V | E>;
+
+    /**
+     * Overload for when fn() returns T (not Either)
+     * @template T - Type of the success value
+     * @template E - Type of the error (must extend Error)
+     * @param args - Configuration object passed to safeAsync
+     * @returns EitherAsync<T, E> - Chainable wrapper of the safeAsync result
+     */
+    static safe<T, E extends Error>(args: { fn: () => PromiseLike<T> } & ErrorHandler<E>): EitherAsync<T, E>;
+
+    /**
+     * Runs an async operation through safeAsync and wraps the result
+     * @template T - Type of the success value
+     * @template E - Type of the error (must extend Error)
+     * @param args - Configuration object passed to safeAsync
+     * @returns EitherAsync<T, E> - Chainable wrapper of the safeAsync result
+     * @example
+     * ```typescript
+     * const names = await EitherAsync.safe({ fn: () => api.getUsers(), ErrClass: ApiError })
+     *     .map(users => users.map(user => user.name))
+     *     .run();
+     * ```
+     */
+    static safe<T, E extends Error>(args: { fn: () => PromiseLike<T> } & ErrorHandler<E>): EitherAsync<T, E> {
+        return new EitherAsync(safeAsync(args));
+    }
+
+    /**
+     * Transforms the success value if Ok, otherwise passes the Error through
+     * @template U - Type of the transformed value
+     * @param fn - Sync or async transformation function
+     * @returns EitherAsync<U, E> - New EitherAsync with transformed value or original error
+     * @example
+     * ```typescript
+     * const total = EitherAsync.Ok([1, 2, 3]).map(items => items.length);
+     * ```
+     */
+    public map<U>(fn: (value: T) => U | PromiseLike<U>): EitherAsync<U, E> {
+        return new EitherAsync(this.promise.then(async (either): Promise<Either<U, E>> =>
+            either.isError() ? either : Either.Ok(await fn(either.getValue()))
+        ));
+    }
+
+    /**
+     * Chains sync or async Either-returning operations (monadic bind)
+     * @template U - Type of the new success value
+     * @template F - Error type of the chained operation
+     * @param fn - Function that returns an Either, a Promise of Either or an EitherAsync
+     * @returns EitherAsync<U, E | F> - Flattened result of the operation
+     * @example
+     * ```typescript
+     * const orders = EitherAsync.from(loadUser(id))
+     *     .flatMap(user => safeAsync({ fn: () => api.getOrders(user.id), ErrClass: ApiError }));
+     * ```
+     */
+    public flatMap<U, F>(fn: (value: T) => EitherLike<U, F>): EitherAsync<U, E | F> {
+        return new EitherAsync(this.promise.then((either): EitherLike<U, E | F> =>
+            either.isError() ? either : fn(either.getValue())
+        ));
+    }
+
+    /**
+     * Transforms the error value if Error, otherwise passes the Ok through
+     * @template F - Type of the new error value
+     * @param fn - Sync or async function to transform the error value
+     * @returns EitherAsync<T, F> - EitherAsync with transformed error type or original success
+     * @example
+     * ```typescript
+     * const result = EitherAsync.from(loadUser(id)).mapError(error => new ServiceError(error.message));
+     * ```
+     */
+    public mapError<F>(fn: (error: E) => F | PromiseLike<F>): EitherAsync<T, F> {
+        return new EitherAsync(this.promise.then(async (either): Promise<Either<T, F>> => {
+            if (either.isOk()) {
+                return Either.Ok(either.getValue());
+            }
+            const error = await fn(either.getError());
+            return either.mapError(() => error);
+        }));
+    }
+
+    /**
+     * Recovers from error with a sync or async Either-returning function
+     * @template U - Type of the recovered success value
+     * @template F - Error type of the recovery operation
+     * @param fn - Function that takes the error and returns an Either, a Promise of Either or an EitherAsync
+     * @returns EitherAsync<T | U, F> - Result of the recovery function or original Ok
+     * @example
+     * ```typescript
+     * const user = EitherAsync.from(loadFromCache(id)).recoverWith(() => loadFromDatabase(id));
+     * ```
+     */
+    public recoverWith<U, F>(fn: (error: E) => EitherLike<U, F>): EitherAsync<T | U, F> {
+        return new EitherAsync(this.promise.then((either): EitherLike<T | U, F> =>
+            either.isError() ? fn(either.getError()) : Either.Ok(either.getValue())
+        ));
+    }
+
+    /**
+     * Executes a sync or async side effect on the success value without changing the result
+     * @param fn - Side effect function to execute on success value
+     * @returns EitherAsync<T, E> - EitherAsync resolving to the original Either once the side effect finished
+     * @example
+     * ```typescript
+     * const user = EitherAsync.from(loadUser(id)).tap(user => audit.log('user loaded', user.id));
+     * ```
+     */
+    public tap(fn: (value: T) => unknown): EitherAsync<T, E> {
+        return new EitherAsync(this.promise.then(async either => {
+            if (either.isOk()) await fn(either.getValue());
+            return either;
+        }));
+    }
+
+    /**
+     * Executes a sync or async side effect on the error value without changing the result
+     * @param fn - Side effect function to execute on error value
+     * @returns EitherAsync<T, E> - EitherAsync resolving to the original Either once the side effect finished
+     * @example
+     * ```typescript
+     * const user = EitherAsync.from(loadUser(id)).tapError(error => logger.warn(error.message));
+     * ```
+     */
+    public tapError(fn: (error: E) => unknown): EitherAsync<T, E> {
+        return new EitherAsync(this.promise.then(async either => {
+            if (either.isError()) await fn(either.getError());
+            return either;
+        }));
+    }
+
+    /**
+     * Adds a context frame to the error once resolved, keeping its type and identity - no-op for Ok
+     * @param frame - Description of the step that was running
+     * @returns EitherAsync<T, E> - EitherAsync resolving to the original Either
+     * @example
+     * ```typescript
+     * const user = EitherAsync.from(loadUser(42)).context('loading user 42');
+     * ```
+     */
+    public context(frame: string): EitherAsync<T, E> {
+        return new EitherAsync(this.promise.then(either => either.context(frame)));
+    }
+
+    /**
+     * Adds a lazily built context frame to the error once resolved - fn only runs for Error results
+     * @param fn - Function building the frame from the error
+     * @returns EitherAsync<T, E> - EitherAsync resolving to the original Either
+     * @example
+     * ```typescript
+     * const order = EitherAsync.from(saveOrder(input)).withContext(() => `saving order ${input.id}`);
+     * ```
+     */
+    public withContext(fn: (error: E) => string): EitherAsync<T, E> {
+        return new EitherAsync(this.promise.then(either => either.withContext(fn)));
+    }
+
+    /**
+     * Pattern matching - executes the appropriate sync or async handler once the Either is resolved
+     * @template R - Return type of both handler functions
+     * @param expressions - Object containing handlers for Ok and Error cases
+     * @returns Promise<R> - Result of executing the appropriate handler function
+     * @example
+     * ```typescript
+     * const status = await EitherAsync.from(loadUser(id)).fold({
+     *     fnOk: () => 200,
+     *     fnError: () => 404
+     * });
+     * ```
+     */
+    public fold<R>(expressions: AsyncFoldExpression<R, E, T>): Promise<R> {
+        return this.promise.then(either => either.isError()
+            ? expressions.fnError(either.getError())
+            : expressions.fnOk(either.getValue())
+        );
+    }
+
+    /**
+     * Combines with another Either, Promise of Either or EitherAsync into a tuple
+     * @template U - Type of the other success value
+     * @template F - Type of the other error value
+     * @param other - Another Either-like value to combine with (awaited concurrently)
+     * @returns EitherAsync<[T, U], E | F> - Tuple of both values if both are Ok, or first error encountered
+     * @example
+     * ```typescript
+     * const both = EitherAsync.from(loadUser(id)).zip(loadSettings(id));
+     * ```
+     */
+    public zip<U, F>(other: EitherLike<U, F>): EitherAsync<[T, U], E | F> {
+        return new EitherAsync(Promise.all([this.promise, other]).then(([self, that]): Either<[T, U], E | F> =>
+            self.isError()
+                ? self
+                : that.isError()
+                    ? that
+                    : Either.Ok([self.getValue(), that.getValue()])
+        ));
+    }
+
+    /**
+     * Adds the success value of a sync or async Either-returning step to the record
+     * @template K - Name of the new field
+     * @template U - Type of the new field's value
+     * @template F - Error type of the step
+     * @param name - Name of the new field (must not already exist in the record)
+     * @param fn - Function that receives the current record and returns an Either-like value
+     * @returns EitherAsync<Bound<T, K, U>, E | F> - Extended record, or the first error encountered
+     * @example
+     * ```typescript
+     * EitherAsync.Do
+     *     .bind('user', () => safeAsync({ fn: () => api.getUser(id), ErrClass: ApiError }))
+     *     .bind('permissions', ({ user }) => checkPermissions(user));
+     * ```
+     */
+    public bind<K extends string, U, F>(
+        name: Exclude<K, keyof T>,
+        fn: (scope: T) => EitherLike<U, F>
+    ): EitherAsync<Bound<T, K, U>, E | F> {
+        return this.flatMap(scope =>
+            EitherAsync.from(fn(scope)).map(value => ({ ...scope, [name]: value }) as Bound<T, K, U>)
+        );
+    }
+
+    /**
+     * Adds a sync or async computed value to the record
+     * @template K - Name of the new field
+     * @template U - Type of the new field's value
+     * @param name - Name of the new field (must not already exist in the record)
+     * @param fn - Function that receives the current record and computes the value
+     * @returns EitherAsync<Bound<T, K, U>, E> - Extended record, or the original error
+     * @example
+     * ```typescript
+     * EitherAsync.Do
+     *     .bind('orders', () => loadOrders())
+     *     .let('total', ({ orders }) => orders.reduce((sum, order) => sum + order.amount, 0));
+     * ```
+     */
+    public let<K extends string, U>(
+        name: Exclude<K, keyof T>,
+        fn: (scope: T) => U | PromiseLike<U>
+    ): EitherAsync<Bound<T, K, U>, E> {
+        return this.map(async scope => ({ ...scope, [name]: await fn(scope) }) as Bound<T, K, U>);
+    }
+
+    /**
+     * Safely extracts value with fallback for Error cases
+     * @param defaultValue - Value to return if the result is Error
+     * @returns Promise<T> - The success value or the provided default value
+     * @example
+     * ```typescript
+     * const name = await EitherAsync.from(loadUser(id)).map(user => user.name).getOrElse('anonymous');
+     * ```
+     */
+    public getOrElse(defaultValue: T): Promise<T> {
+        return this.promise.then(either => either.getOrElse(defaultValue));
+    }
+
+    /**
+     * Converts back to a plain Promise of Either
+     * @returns Promise<Either<T, E>> - Promise of the wrapped Either
+     */
+    public run(): Promise<Either<T, E>> {
+        return this.promise;
+    }
+
+    /**
+     * Makes EitherAsync awaitable, resolving to the wrapped Either
+     * @param onFulfilled - Callback for the resolved Either
+     * @param onRejected - Callback for unexpected rejections thrown inside a step
+     * @returns Promise of the callback result
+     */
+    public then<R1 = Either<T, E>, R2 = never>(
+        onFulfilled?: ((value: Either<T, E>) => R1 | PromiseLike<R1>) | null,
+        onRejected?: ((reason: unknown) => R2 | PromiseLike<R2>) | null
+    ): Promise<R1 | R2> {
+        return this.promise.then(onFulfilled, onRejected);
+    }
+}
+
+/**
+ * Earlier name of the builder behind Either.DoAsync - DoAsync.from and the bind/let/map/run chain work unchanged
+ * @deprecated Use EitherAsync
+ */
+export const DoAsync = EitherAsync;
+
+/**
+ * Earlier name of the builder behind Either.DoAsync
+ * @template S - Type of the accumulated record
+ * @template E - Union of the error types of all steps
+ * @deprecated Use EitherAsync
+ */
+export type DoAsync<S, E> = EitherAsync<S, E>;
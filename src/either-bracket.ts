@@ -0,0 +1,248 @@
+import { Either } from './either';
+import type { EitherLike } from './either-async';
+import { Option } from './option';
+import { TaggedError } from './tagged-error';
+
+/** Value a release function may return - an Error Either counts as a failed release, like a throw */
+export type ReleaseOutcome = void | Either<unknown, unknown>;
+
+/** Type of Symbol.dispose when the consumer's lib declares it (ESNext.Disposable), never otherwise */
+type DisposeKey = SymbolConstructor extends { readonly dispose: infer K extends symbol } ? K : never;
+
+/** Type of Symbol.asyncDispose when the consumer's lib declares it (ESNext.Disposable), never otherwise */
+type AsyncDisposeKey = SymbolConstructor extends { readonly asyncDispose: infer K extends symbol } ? K : never;
+
+/**
+ * Resource released with its `[Symbol.dispose]()` method
+ * - Built from the consumer's own SymbolConstructor, so the declarations do not need the ESNext.Disposable lib
+ */
+export type DisposableResource = { [K in DisposeKey]: () => void };
+
+/** Resource released with its `[Symbol.asyncDispose]()` method */
+export type AsyncDisposableResource = { [K in AsyncDisposeKey]: () => PromiseLike<void> };
+
+/** Well-known symbols used to release resources when no release function is given */
+type DisposeSymbolName = 'asyncDispose' | 'dispose';
+
+/**
+ * Error returned when releasing a resource fails, keeping the use error when there was one
+ * @template E - Type of the use error
+ */
+export class ReleaseError<E = never> extends TaggedError('ReleaseError')<{
+    releaseError: unknown;
+    useError: unknown;
+}> {
+    declare readonly useError: E | undefined;
+}
+
+/**
+ * Turns what a release function returned into its failure, if any
+ * @param outcome - Value returned by the release function
+ * @returns Option<unknown> - Some with the release error, or None when the release succeeded
+ */
+function toReleaseFailure(outcome: ReleaseOutcome): Option<unknown> {
+    return outcome instanceof Either && outcome.isError() ? Option.Some(outcome.getError()) : Option.None();
+}
+
+/**
+ * Combines the result of `use` with the outcome of the release
+ * @template T - Type of the use value
+ * @template F - Type of the use error
+ * @param result - Result of use
+ * @param failure - Release error, if the release failed
+ * @returns Either<T, F | ReleaseError<F>> - result unchanged, or a ReleaseError carrying both errors
+ */
+function settle<T, F>(result: Either<T, F>, failure: Option<unknown>): Either<T, F | ReleaseError<F>> {
+    if (failure.isNone()) {
+        return result;
+    }
+    return Either.Error(new ReleaseError<F>({
+        releaseError: failure.getValue(),
+        useError: result.isError() ? result.getError() : undefined,
+        message: result.isError() ? 'Resource release failed after use failed' : 'Resource release failed'
+    }));
+}
+
+/**
+ * Rethrows an exception thrown by `use`, combined with the release error if the release failed too
+ * @param thrown - Exception thrown by use
+ * @param failure - Release error, if the release failed
+ */
+function rethrow(thrown: unknown, failure: Option<unknown>): never {
+    if (failure.isSome()) {
+        throw new ReleaseError({
+            releaseError: failure.getValue(),
+            useError: thrown,
+            message: 'Resource release failed after use threw'
+        });
+    }
+    throw thrown;
+}
+
+/**
+ * Looks up the well-known dispose symbols, which runtimes before Node 18.18 / 20.4 lack
+ * @param names - Symbols to look up, in order of preference
+ * @returns [DisposeSymbolName, symbol][] - Names and symbols provided by the runtime
+ * @throws TypeError if the runtime provides none of them
+ */
+function disposeSymbols(names: DisposeSymbolName[]): [DisposeSymbolName, symbol][] {
+    const wellKnown = Symbol as unknown as Partial<Record<DisposeSymbolName, symbol>>;
+    const symbols = names
+        .map((name): [DisposeSymbolName, symbol | undefined] => [name, wellKnown[name]])
+        .filter((entry): entry is [DisposeSymbolName, symbol] => typeof entry[1] === 'symbol');
+    if (symbols.length === 0) {
+        const wanted = names.map(name => `Symbol.${name}`).join(' or ');
+        throw new TypeError(`This runtime does not support ${wanted} - pass a release function`);
+    }
+    return symbols;
+}
+
+/**
+ * Finds the dispose method of a resource, used when no release function is given
+ * @param resource - Acquired resource
+ * @param symbols - Names and dispose symbols, in order of preference
+ * @returns Function releasing the resource
+ * @throws TypeError if the resource has none of the methods
+ */
+function disposerOf(
+    resource: unknown,
+    symbols: [DisposeSymbolName, symbol][]
+): () => ReleaseOutcome | PromiseLike<ReleaseOutcome> {
+    for (const [, symbol] of symbols) {
+        const method = resource === null || resource === undefined
+            ? undefined
+            : (resource as Record<symbol, unknown>)[symbol];
+        if (typeof method === 'function') {
+            return () => method.call(resource);
+        }
+    }
+    const methods = symbols.map(([name]) => `[Symbol.${name}]()`).join(' or ');
+    throw new TypeError(`Resource has no ${methods} method - pass a release function`);
+}
+
+/**
+ * Acquires a resource, uses it and always releases it
+ * - If acquire fails, use and release are skipped and its error is returned
+ * - Release runs whether use returns Ok or Error, and also when use throws (the exception is rethrown afterwards)
+ * - A release that throws or returns an Error Either makes the result a ReleaseError, which keeps the use error
+ * - Without a release function the resource is released with its `Symbol.dispose` method
+ *   (a TypeError is thrown if the runtime lacks Symbol.dispose or the resource has no such method)
+ * @template A - Type of the resource
+ * @template T - Type of the use value
+ * @template E - Type of the acquire error
+ * @template F - Type of the use error
+ * @param acquire - Function acquiring the resource
+ * @param use - Function using the resource
+ * @param release - Function releasing the resource (defaults to `resource[Symbol.dispose]()`)
+ * @returns Either<T, E | F | ReleaseError<F>> - Result of use, or the first failure
+ * @example
+ * ```typescript
+ * const config = bracket(
+ *     () => openFile('config.json'),
+ *     file => parseConfig(file.read()),
+ *     file => file.close()
+ * ); // Either<Config, IoError | ParseError | ReleaseError<ParseError>>
+ *
+ * const rows = bracket(() => pool.acquire(), conn => conn.query(sql)); // conn implements Symbol.dispose
+ * ```
+ */
+export function bracket<A extends DisposableResource, T, E, F>(
+    acquire: () => Either<A, E>,
+    use: (resource: A) => Either<T, F>
+): Either<T, E | F | ReleaseError<F>>;
+export function bracket<A, T, E, F>(
+    acquire: () => Either<A, E>,
+    use: (resource: A) => Either<T, F>,
+    release: (resource: A) => ReleaseOutcome
+): Either<T, E | F | ReleaseError<F>>;
+export function bracket<A, T, E, F>(
+    acquire: () => Either<A, E>,
+    use: (resource: A) => Either<T, F>,
+    release?: (resource: A) => ReleaseOutcome
+): Either<T, E | F | ReleaseError<F>> {
+    const symbols = release ? [] : disposeSymbols(['dispose']);
+    const acquired = acquire();
+    if (acquired.isError()) {
+        return acquired;
+    }
+
+    const resource = acquired.getValue();
+    const dispose = release ? () => release(resource) : disposerOf(resource, symbols) as () => ReleaseOutcome;
+    const runRelease = (): Option<unknown> => {
+        try {
+            return toReleaseFailure(dispose());
+        } catch (error) {
+            return Option.Some(error);
+        }
+    };
+
+    let result: Either<T, F>;
+    try {
+        result = use(resource);
+    } catch (error) {
+        return rethrow(error, runRelease());
+    }
+    return settle(result, runRelease());
+}
+
+/**
+ * Async version of bracket - acquire, use and release may return Promises
+ * - Release runs whether use resolves to Ok or Error, and also when use throws or rejects (the reason is rethrown afterwards)
+ * - A release that throws, rejects or resolves to an Error Either makes the result a ReleaseError, which keeps the use error
+ * - Without a release function the resource is released with `Symbol.asyncDispose`, falling back to `Symbol.dispose`
+ *   (a TypeError is thrown if the runtime lacks both symbols or the resource has neither method)
+ * @template A - Type of the resource
+ * @template T - Type of the use value
+ * @template E - Type of the acquire error
+ * @template F - Type of the use error
+ * @param acquire - Function acquiring the resource
+ * @param use - Function using the resource
+ * @param release - Function releasing the resource (defaults to its dispose method)
+ * @returns Promise<Either<T, E | F | ReleaseError<F>>> - Result of use, or the first failure
+ * @example
+ * ```typescript
+ * const order = await bracketAsync(
+ *     () => db.connect(),
+ *     conn => conn.transaction(tx => saveOrder(tx, input)),
+ *     conn => conn.end()
+ * ); // Either<Order, DbError | ReleaseError<DbError>>
+ * ```
+ */
+export function bracketAsync<A extends AsyncDisposableResource | DisposableResource, T, E, F>(
+    acquire: () => EitherLike<A, E>,
+    use: (resource: A) => EitherLike<T, F>
+): Promise<Either<T, E | F | ReleaseError<F>>>;
+export function bracketAsync<A, T, E, F>(
+    acquire: () => EitherLike<A, E>,
+    use: (resource: A) => EitherLike<T, F>,
+    release: (resource: A) => ReleaseOutcome | PromiseLike<ReleaseOutcome>
+): Promise<Either<T, E | F | ReleaseError<F>>>;
+export async function bracketAsync<A, T, E, F>(
+    acquire: () => EitherLike<A, E>,
+    use: (resource: A) => EitherLike<T, F>,
+    release?: (resource: A) => ReleaseOutcome | PromiseLike<ReleaseOutcome>
+): Promise<Either<T, E | F | ReleaseError<F>>> {
+    const symbols = release ? [] : disposeSymbols(['asyncDispose', 'dispose']);
+    const acquired = await acquire();
+    if (acquired.isError()) {
+        return acquired;
+    }
+
+    const resource = acquired.getValue();
+    const dispose = release ? () => release(resource) : disposerOf(resource, symbols);
+    const runRelease = async (): Promise<Option<unknown>> => {
+        try {
+            return toReleaseFailure(await dispose());
+        } catch (error) {
+            return Option.Some(error);
+        }
+    };
+
+    let result: Either<T, F>;
+    try {
+        result = await use(resource);
+    } catch (error) {
+        return rethrow(error, await runRelease());
+    }
+    return settle(result, await runRelease());
+}
@@ -0,0 +1,108 @@
+import { Either } from './either';
+import { toCaughtError, toErrorHandler } from './either-types';
+import type { ErrorHandlerLike } from './either-types';
+
+/**
+ * Node-style callback - `err` is null or undefined on success
+ * @template T - Type of the result
+ */
+export type NodeCallback<T> = (err: unknown, result: T) => void;
+
+/**
+ * Converts a Node-style `(err, value)` pair into an Either
+ * - A null or undefined `err` means success; anything else goes through ErrClass or onError, kept as `cause`
+ * @template T - Type of the result
+ * @template E - Type of the error (must extend Error)
+ * @param err - Error argument of the callback
+ * @param value - Result argument of the callback
+ * @param onError - Error class (receives the message and `{ cause }`) or onError factory
+ * @returns Either<T, E> - Ok with the value, or the wrapped error
+ * @example
+ * ```typescript
+ * legacyDb.get(key, (err, row) => {
+ *     const result = fromCallbackResult(err, row, DbError); // Either<Row, DbError>
+ * });
+ * ```
+ */
+export function fromCallbackResult<T, E extends Error>(err: unknown, value: T, onError: ErrorHandlerLike<E>): Either<T, E> {
+    return err === null || err === undefined
+        ? Either.Ok(value)
+        : Either.Error(toCaughtError(err, toErrorHandler(onError)));
+}
+
+/**
+ * Converts a callback-last function into one returning Promise<Either>, with the same leading parameters
+ * - Callback errors and synchronous throws go through ErrClass or onError, kept as `cause`
+ * - Only the first callback invocation counts
+ * @template A - Leading parameter types of the function
+ * @template T - Type of the callback result
+ * @template E - Type of the error (must extend Error)
+ * @param fn - Function whose last parameter is a Node-style callback
+ * @param onError - Error class (receives the message and `{ cause }`) or onError factory
+ * @returns (...args: A) => Promise<Either<T, E>> - Promise-returning function, `this` is forwarded
+ * @example
+ * ```typescript
+ * const readFile = eitherify((path: string, cb: NodeCallback<Buffer>) => fs.readFile(path, cb), IoError);
+ * const file = await readFile('config.json'); // Either<Buffer, IoError>
+ * ```
+ */
+export function eitherify<A extends unknown[], T, E extends Error>(
+    fn: (...args: [...A, NodeCallback<T>]) => void,
+    onError: ErrorHandlerLike<E>
+): (...args: A) => Promise<Either<T, E>> {
+    const handler = toErrorHandler(onError);
+
+    return function (this: unknown, ...args: A) {
+        return new Promise<Either<T, E>>(resolve => {
+            try {
+                fn.call(this, ...args, (err: unknown, result: T) => {
+                    resolve(err === null || err === undefined
+                        ? Either.Ok(result)
+                        : Either.Error(toCaughtError(err, handler)));
+                });
+            } catch (error) {
+                resolve(Either.Error(toCaughtError(error, handler)));
+            }
+        });
+    };
+}
+
+/**
+ * Delivers an Either (or a Promise of one) to a Node-style callback
+ * - Ok calls `cb(null, value)`, Error calls `cb(error)`, and a rejected Promise calls `cb(reason)`
+ * - For Promises the callback runs in a microtask, so exceptions it throws are not swallowed
+ * @template T - Type of the success value
+ * @template E - Type of the error
+ * @param either - Either or Promise of Either to deliver
+ * @param cb - Node-style callback
+ * @example
+ * ```typescript
+ * // Expose an Either-based service to a callback-based framework
+ * function handler(req, cb) {
+ *     toCallback(userService.getUser(req.params.id), cb);
+ * }
+ * ```
+ */
+export function toCallback<T, E>(
+    either: Either<T, E> | PromiseLike<Either<T, E>>,
+    cb: (err: E | null, result: T) => void
+): void {
+    const fail = cb as (err: unknown) => void;
+    const deliver = (result: Either<T, E>) => {
+        if (result.isOk()) {
+            cb(null, result.getValue());
+        } else {
+            fail(result.getError());
+        }
+    };
+
+    if (either instanceof Either) {
+        deliver(either);
+        return;
+    }
+
+    Promise.resolve(either).then(
+        result => queueMicrotask(() => deliver(result)),
+        reason => queueMicrotask(() => fail(reason))
+    );
+}
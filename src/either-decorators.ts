@@ -0,0 +1,75 @@
+import { Either } from './either';
+import { safeAsync, toCaughtError, toErrorHandler } from './either-types';
+import type { ErrorHandlerLike } from './either-types';
+
+/**
+ * Method decorator (TC39 standard decorators) that turns thrown exceptions into Either.Error
+ * - The method must declare an Either return type that includes the decorator's error type
+ * - Returned Eithers pass through unchanged; any other return value is wrapped in Ok
+ * @template E - Type of the error (must extend Error)
+ * @param onError - Error class (receives the message and `{ cause }`) or onError factory
+ * @returns Method decorator
+ * @example
+ * ```typescript
+ * class ConfigService {
+ *     @SafeSync(ConfigError)
+ *     load(path: string): Either<Config, ConfigError> {
+ *         return Either.Ok(parseConfig(fs.readFileSync(path, 'utf8'))); // throws become Error(ConfigError)
+ *     }
+ * }
+ * ```
+ */
+export function SafeSync<E extends Error>(onError: ErrorHandlerLike<E>) {
+    const handler = toErrorHandler(onError);
+
+    return function <This, A extends unknown[], R extends Either<unknown, unknown>>(
+        method: (this: This, ...args: A) => R,
+        context: ClassMethodDecoratorContext<This, (this: This, ...args: A) => R>
+    ): (this: This, ...args: A) => R {
+        function safeMethod(this: This, ...args: A): R {
+            try {
+                const result: unknown = method.apply(this, args);
+                return (result instanceof Either ? result : Either.Ok(result)) as R;
+            } catch (error) {
+                return Either.Error(toCaughtError(error, handler)) as unknown as R;
+            }
+        }
+
+        Object.defineProperty(safeMethod, 'name', { value: String(context.name) });
+        return safeMethod;
+    };
+}
+
+/**
+ * Async method decorator (TC39 standard decorators) that turns thrown exceptions and rejections into Either.Error
+ * - The method must declare a Promise<Either> return type that includes the decorator's error type
+ * - Resolved Eithers are flattened like safeAsync; any other resolved value is wrapped in Ok
+ * @template E - Type of the error (must extend Error)
+ * @param onError - Error class (receives the message and `{ cause }`) or onError factory
+ * @returns Method decorator
+ * @example
+ * ```typescript
+ * class UserService {
+ *     @SafeAsync(ServiceError)
+ *     async getUser(id: string): Promise<Either<User, ServiceError | NotFoundError>> {
+ *         const user = await this.db.users.find(id); // rejections become Error(ServiceError)
+ *         return user ? Either.Ok(user) : Either.Error(new NotFoundError({ id }));
+ *     }
+ * }
+ * ```
+ */
+export function SafeAsync<E extends Error>(onError: ErrorHandlerLike<E>) {
+    const handler = toErrorHandler(onError);
+
+    return function <This, A extends unknown[], R extends PromiseLike<Either<unknown, unknown>>>(
+        method: (this: This, ...args: A) => R,
+        context: ClassMethodDecoratorContext<This, (this: This, ...args: A) => R>
+    ): (this: This, ...args: A) => R {
+        function safeMethod(this: This, ...args: A): R {
+            return safeAsync({ fn: () => method.apply(this, args), ...handler }) as unknown as R;
+        }
+
+        Object.defineProperty(safeMethod, 'name', { value: String(context.name) });
+        return safeMethod;
+    };
+}
@@ -0,0 +1,139 @@
+import { Either } from './either';
+
+/**
+ * Equality instance for a type
+ * @template T - Type of the compared values
+ */
+export interface Eq<T> {
+    /** Returns true if both values are considered equal */
+    equals(a: T, b: T): boolean;
+}
+
+/**
+ * Custom equality for each side of an Either, used by Either.equals
+ * @template T - Type of the success value
+ * @template E - Type of the error value
+ */
+export interface EitherEqOptions<T, E> {
+    /** Equality for Ok values, defaults to structuralEq */
+    eqOk?: Eq<T>;
+    /** Equality for Error values, defaults to structuralEq */
+    eqError?: Eq<E>;
+}
+
+/**
+ * Checks whether a value is a plain object (object literal or null prototype)
+ * @param value - Value to check
+ * @returns true for plain objects
+ */
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+    if (typeof value !== 'object' || value === null) return false;
+    const proto = Object.getPrototypeOf(value);
+    return proto === Object.prototype || proto === null;
+}
+
+/**
+ * Structural equality - deep for arrays, plain objects, Maps, Sets, Dates and Eithers,
+ * name plus message for Errors, and Object.is for everything else
+ * @param a - First value
+ * @param b - Second value
+ * @param seen - Pairs already being compared, to stop cycles
+ * @returns true if both values are structurally equal
+ */
+export function deepEqual(a: unknown, b: unknown, seen: Map<unknown, unknown> = new Map()): boolean {
+    if (Object.is(a, b)) return true;
+    if (typeof a !== 'object' || typeof b !== 'object' || a === null || b === null) return false;
+    if (seen.get(a) === b) return true;
+    seen.set(a, b);
+
+    if (a instanceof Error || b instanceof Error) {
+        return a instanceof Error && b instanceof Error && a.name === b.name && a.message === b.message;
+    }
+    if (a instanceof Either || b instanceof Either) {
+        return a instanceof Either && b instanceof Either && a.isOk() === b.isOk() && (a.isOk()
+            ? deepEqual(a.getValue(), (b as Either<unknown, unknown>).getValue(), seen)
+            : deepEqual(a.getError(), (b as Either<unknown, unknown>).getError(), seen));
+    }
+    if (a instanceof Date || b instanceof Date) {
+        return a instanceof Date && b instanceof Date && Object.is(a.getTime(), b.getTime());
+    }
+    if (Array.isArray(a) || Array.isArray(b)) {
+        return Array.isArray(a) && Array.isArray(b) && a.length === b.length
+            && a.every((item, i) => deepEqual(item, b[i], seen));
+    }
+    if (a instanceof Map || b instanceof Map) {
+        return a instanceof Map && b instanceof Map && a.size === b.size
+            && [...a].every(([key, value]) => b.has(key) && deepEqual(value, b.get(key), seen));
+    }
+    if (a instanceof Set || b instanceof Set) {
+        return a instanceof Set && b instanceof Set && a.size === b.size && [...a].every(item => b.has(item));
+    }
+    if (isPlainObject(a) && isPlainObject(b)) {
+        const keys = Object.keys(a);
+        return keys.length === Object.keys(b).length
+            && keys.every(key => Object.prototype.hasOwnProperty.call(b, key) && deepEqual(a[key], b[key], seen));
+    }
+
+    return false;
+}
+
+/** Default equality used by Either.equals and Either.getEq */
+export const structuralEq: Eq<unknown> = { equals: (a, b) => deepEqual(a, b) };
+
+/**
+ * Builds a canonical string for a value, consistent with deepEqual
+ * @param value - Value to describe
+ * @param seen - Objects on the current path, to stop cycles
+ * @returns Canonical string - equal values produce equal strings
+ */
+function canonicalize(value: unknown, seen: Set<unknown>): string {
+    if (typeof value === 'string') return JSON.stringify(value);
+    if (typeof value === 'bigint') return `${value}n`;
+    if (typeof value === 'symbol' || typeof value === 'function') return String(value);
+    if (typeof value !== 'object' || value === null) return Object.is(value, -0) ? '-0' : String(value);
+    if (seen.has(value)) return '[Circular]';
+
+    seen.add(value);
+    try {
+        if (value instanceof Error) return `Error(${JSON.stringify(value.name)},${JSON.stringify(value.message)})`;
+        if (value instanceof Either) {
+            return value.isOk()
+                ? `Ok(${canonicalize(value.getValue(), seen)})`
+                : `Error(${canonicalize(value.getError(), seen)})`;
+        }
+        if (value instanceof Date) return `Date(${value.getTime()})`;
+        if (Array.isArray(value)) return `[${value.map(item => canonicalize(item, seen)).join(',')}]`;
+        if (value instanceof Map) {
+            const entries = [...value].map(([k, v]) => `${canonicalize(k, seen)}=>${canonicalize(v, seen)}`);
+            return `Map{${entries.sort().join(',')}}`;
+        }
+        if (value instanceof Set) {
+            return `Set{${[...value].map(item => canonicalize(item, seen)).sort().join(',')}}`;
+        }
+
+        const entries = Object.keys(value).sort()
+            .map(key => `${JSON.stringify(key)}:${canonicalize((value as Record<string, unknown>)[key], seen)}`);
+        return `{${entries.join(',')}}`;
+    } finally {
+        seen.delete(value);
+    }
+}
+
+/**
+ * Computes a stable 32-bit hash consistent with deepEqual (FNV-1a over a canonical form)
+ * @param value - Value to hash
+ * @returns Unsigned 32-bit integer - structurally equal values hash to the same number
+ * @example
+ * ```typescript
+ * hashValue({ a: 1, b: 2 }) === hashValue({ b: 2, a: 1 }); // true
+ * ```
+ */
+export function hashValue(value: unknown): number {
+    const text = canonicalize(value, new Set());
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < text.length; i++) {
+        hash ^= text.charCodeAt(i);
+        hash = Math.imul(hash, 0x01000193);
+    }
+    return hash >>> 0;
+}
@@ -0,0 +1,213 @@
+import { Either } from './either';
+
+/** Current version of the Either wire format */
+export const EITHER_JSON_VERSION = 1;
+
+/**
+ * Wire format of an Error instance
+ * - `type` is the constructor name used to look up the class in an ErrorRegistry
+ * - `data` holds own enumerable fields such as `_tag`, `id` or `status`
+ * - `errorFields` holds own fields whose value is an Error or an array containing Errors (e.g. `RetryError.errors`),
+ *   serialized recursively
+ */
+export interface SerializedError {
+    kind: 'error';
+    type: string;
+    name: string;
+    message: string;
+    stack?: string;
+    cause?: SerializedErrorValue;
+    data: Record<string, unknown>;
+    errorFields?: Record<string, SerializedErrorValue | SerializedErrorValue[]>;
+}
+
+/** Wire format of an error channel value that is not an Error instance */
+export interface SerializedPlainValue {
+    kind: 'value';
+    value: unknown;
+}
+
+/** Wire format of any error channel value */
+export type SerializedErrorValue = SerializedError | SerializedPlainValue;
+
+/**
+ * Versioned wire format produced by Either.toJSON
+ * @template T - Type of the success value
+ */
+export type EitherJSON<T = unknown> =
+    | { _tag: 'Ok'; _version: typeof EITHER_JSON_VERSION; value: T }
+    | { _tag: 'Error'; _version: typeof EITHER_JSON_VERSION; error: SerializedErrorValue };
+
+/** Error class that can be revived from the wire format */
+type ErrorClass = abstract new (...args: never[]) => Error;
+
+/** Built-in error classes that are always revived as themselves */
+const BUILT_IN_ERRORS: ErrorClass[] = [Error, TypeError, RangeError, SyntaxError, ReferenceError, EvalError, URIError];
+
+/** Fields handled explicitly and therefore excluded from `data` */
+const RESERVED_FIELDS = new Set(['name', 'message', 'stack', 'cause']);
+
+/** Keys never copied from wire data, so untrusted input cannot replace a revived error's prototype */
+const UNSAFE_KEYS = new Set(['__proto__', 'constructor', 'prototype']);
+
+/**
+ * Registry of error classes that deserialized errors are revived into
+ */
+export class ErrorRegistry {
+    /** Registered classes by constructor name */
+    private readonly classes = new Map<string, ErrorClass>();
+
+    /**
+     * Registers error classes so deserialized errors become real instances of them
+     * @param classes - Error classes, keyed by their constructor name
+     * @returns this - For chaining
+     * @example
+     * ```typescript
+     * errorRegistry.register(NotFoundError, PaymentDeclinedError);
+     * ```
+     */
+    public register(...classes: ErrorClass[]): this {
+        for (const errorClass of classes) {
+            this.classes.set(errorClass.name, errorClass);
+        }
+        return this;
+    }
+
+    /**
+     * Looks up a registered or built-in error class
+     * @param type - Constructor name stored in the wire format
+     * @returns The error class, or undefined if unknown
+     */
+    public resolve(type: string): ErrorClass | undefined {
+        return this.classes.get(type) ?? BUILT_IN_ERRORS.find(errorClass => errorClass.name === type);
+    }
+}
+
+/** Default registry used by Either.fromJSON */
+export const errorRegistry = new ErrorRegistry();
+
+/**
+ * Options for Either.fromJSON
+ */
+export interface FromJSONOptions {
+    /** Registry used to revive errors, defaults to the shared errorRegistry */
+    registry?: ErrorRegistry;
+}
+
+/**
+ * Serializes an error channel value, keeping name, message, stack, cause and own fields of Errors
+ * - Fields holding an Error, or an array containing Errors, are serialized recursively into `errorFields`
+ * @param error - Value to serialize
+ * @param seen - Errors being serialized above this one, to stop cycles
+ * @returns SerializedErrorValue - JSON-safe representation
+ */
+export function serializeError(error: unknown, seen: Set<unknown> = new Set()): SerializedErrorValue {
+    if (!(error instanceof Error) || seen.has(error)) {
+        return { kind: 'value', value: error instanceof Error ? `[Circular ${error.name}]` : error };
+    }
+
+    seen.add(error);
+    const data: Record<string, unknown> = {};
+    const errorFields: Record<string, SerializedErrorValue | SerializedErrorValue[]> = {};
+    for (const [key, value] of Object.entries(error)) {
+        if (RESERVED_FIELDS.has(key)) continue;
+        if (value instanceof Error) {
+            errorFields[key] = serializeError(value, seen);
+        } else if (Array.isArray(value) && value.some(item => item instanceof Error)) {
+            errorFields[key] = value.map(item => serializeError(item, seen));
+        } else {
+            data[key] = value;
+        }
+    }
+
+    const cause = (error as Error & { cause?: unknown }).cause;
+    const serialized: SerializedError = {
+        kind: 'error',
+        type: error.constructor.name,
+        name: error.name,
+        message: error.message,
+        ...(error.stack !== undefined && { stack: error.stack }),
+        ...(cause !== undefined && { cause: serializeError(cause, seen) }),
+        data,
+        ...(Object.keys(errorFields).length > 0 && { errorFields })
+    };
+    seen.delete(error);
+    return serialized;
+}
+
+/**
+ * Rebuilds an error channel value, reviving Errors into registered classes without calling their constructors
+ * - Only own keys of `data` are copied, each defined as a plain property; `__proto__`, `constructor` and `prototype` are skipped
+ * - Errors in `errorFields` are revived recursively with the same registry
+ * @param serialized - Wire format value
+ * @param registry - Registry used to find error classes
+ * @returns The revived value
+ */
+export function deserializeError(serialized: SerializedErrorValue, registry: ErrorRegistry = errorRegistry): unknown {
+    if (serialized.kind === 'value') {
+        return serialized.value;
+    }
+
+    const errorClass = registry.resolve(serialized.type) ?? Error;
+    const error = Object.create(errorClass.prototype) as Error & { cause?: unknown };
+    for (const [key, value] of Object.entries(serialized.data ?? {})) {
+        if (UNSAFE_KEYS.has(key)) continue;
+        Object.defineProperty(error, key, { value, writable: true, enumerable: true, configurable: true });
+    }
+    for (const [key, value] of Object.entries(serialized.errorFields ?? {})) {
+        if (UNSAFE_KEYS.has(key)) continue;
+        const revived = Array.isArray(value)
+            ? value.map(item => deserializeError(item, registry))
+            : deserializeError(value, registry);
+        Object.defineProperty(error, key, { value: revived, writable: true, enumerable: true, configurable: true });
+    }
+    Object.defineProperties(error, {
+        name: { value: serialized.name, writable: true, configurable: true },
+        message: { value: serialized.message, writable: true, configurable: true },
+        stack: { value: serialized.stack, writable: true, configurable: true }
+    });
+    if (serialized.cause !== undefined) {
+        Object.defineProperty(error, 'cause', {
+            value: deserializeError(serialized.cause, registry),
+            writable: true,
+            configurable: true
+        });
+    }
+
+    return error;
+}
+
+/**
+ * Checks the wire format envelope
+ * @param json - Parsed JSON value
+ * @returns true if json looks like an EitherJSON of the current version
+ */
+function isEitherJSON(json: unknown): json is EitherJSON {
+    if (typeof json !== 'object' || json === null) return false;
+
+    const candidate = json as Record<string, unknown>;
+    if (candidate._version !== EITHER_JSON_VERSION) return false;
+    if (candidate._tag === 'Ok') return 'value' in candidate;
+    if (candidate._tag !== 'Error') return false;
+
+    const error = candidate.error as Partial<SerializedErrorValue> | null;
+    return typeof error === 'object' && error !== null && (error.kind === 'error' || error.kind === 'value');
+}
+
+/**
+ * Rebuilds an Either from its wire format
+ * @param json - EitherJSON object or its JSON string
+ * @param options - Registry used to revive errors
+ * @returns Either<T, E> - Rebuilt Either
+ * @throws TypeError if the input is not a supported version of the wire format
+ */
+export function eitherFromJSON<T, E>(json: unknown, { registry = errorRegistry }: FromJSONOptions = {}): Either<T, E> {
+    const parsed: unknown = typeof json === 'string' ? JSON.parse(json) : json;
+    if (!isEitherJSON(parsed)) {
+        throw new TypeError(`Invalid Either JSON: expected { _tag: "Ok" | "Error", _version: ${EITHER_JSON_VERSION} }`);
+    }
+
+    return parsed._tag === 'Ok'
+        ? Either.Ok(parsed.value as T)
+        : Either.Error(deserializeError(parsed.error, registry) as E);
+}
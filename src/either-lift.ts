@@ -0,0 +1,145 @@
+import { Either } from './either';
+import { safeAsync, safeSync, toCaughtError, toErrorHandler } from './either-types';
+import type { ErrorHandler, ErrorHandlerLike } from './either-types';
+
+/**
+ * Function type produced by liftAsync and eitherifyAll for async methods
+ * - Results that are already Eithers are flattened, like safeAsync
+ * @template T - Resolved value of the original function
+ * @template E - Type of the wrapper error
+ */
+export type LiftedAsyncResult<T, E> = Promise<T extends Either<infer U, infer V> ? Either<U, V | E> : Either<T, E>>;
+
+/**
+ * Type of an object wrapped by eitherifyAll
+ * - Methods returning a PromiseLike return Promise<Either>, other methods return Either
+ * - Non-function properties keep their type
+ * @template O - Type of the wrapped object
+ * @template E - Type of the wrapper error
+ */
+export type Eitherified<O, E> = {
+    [K in keyof O]: O[K] extends (...args: infer A) => infer R
+        ? R extends PromiseLike<infer T>
+            ? (...args: A) => LiftedAsyncResult<T, E>
+            : (...args: A) => Either<R, E>
+        : O[K];
+};
+
+/**
+ * Lifts a function that may throw into one returning Either, with the same parameters
+ * @template A - Parameter types of the function
+ * @template T - Return type of the function
+ * @template E - Type of the error (must extend Error)
+ * @param fn - Function to lift
+ * @param onError - Error class (receives the message and `{ cause }`) or onError factory
+ * @returns (...args: A) => Either<T, E> - Lifted function, `this` is forwarded
+ * @example
+ * ```typescript
+ * const parseJson = liftSync(JSON.parse, ParseError);
+ * parseJson('{"a":1}'); // Ok({ a: 1 })
+ * parseJson('{');       // Error(ParseError)
+ * ```
+ */
+export function liftSync<A extends unknown[], T, E extends Error>(
+    fn: (...args: A) => T,
+    onError: ErrorHandlerLike<E>
+): (...args: A) => Either<T, E> {
+    const handler = toErrorHandler(onError);
+    return function (this: unknown, ...args: A) {
+        return safeSync({ fn: () => fn.apply(this, args), ...handler });
+    };
+}
+
+/**
+ * Lifts an async function that may reject into one resolving to Either, with the same parameters
+ * - Results that are already Eithers are flattened, like safeAsync
+ * @template A - Parameter types of the function
+ * @template T - Resolved value of the function
+ * @template E - Type of the error (must extend Error)
+ * @param fn - Async function to lift
+ * @param onError - Error class (receives the message and `{ cause }`) or onError factory
+ * @returns (...args: A) => Promise<Either<T, E>> - Lifted function, `this` is forwarded
+ * @example
+ * ```typescript
+ * const getUser = liftAsync(api.getUser.bind(api), (thrown, { message }) => new ApiError({ message, cause: thrown }));
+ * const user = await getUser(42); // Either<User, ApiError>
+ * ```
+ */
+export function liftAsync<A extends unknown[], T, E extends Error>(
+    fn: (...args: A) => PromiseLike<T>,
+    onError: ErrorHandlerLike<E>
+): (...args: A) => LiftedAsyncResult<T, E> {
+    const handler = toErrorHandler(onError);
+    return function (this: unknown, ...args: A) {
+        return safeAsync({ fn: () => fn.apply(this, args), ...handler }) as LiftedAsyncResult<T, E>;
+    };
+}
+
+/**
+ * Calls a method and wraps its outcome - thenable results become Promise<Either>, others Either
+ * @template E - Type of the error (must extend Error)
+ * @param fn - Method to call
+ * @param target - Receiver of the call
+ * @param args - Call arguments
+ * @param onError - Normalized error handler
+ * @returns Either or Promise of Either
+ */
+function callWrapped<E extends Error>(
+    fn: (...args: unknown[]) => unknown,
+    target: object,
+    args: unknown[],
+    onError: ErrorHandler<E>
+): Either<unknown, unknown> | Promise<Either<unknown, unknown>> {
+    let result: unknown;
+    try {
+        result = fn.apply(target, args);
+    } catch (error) {
+        return Either.Error(toCaughtError(error, onError));
+    }
+
+    if (typeof (result as PromiseLike<unknown> | undefined)?.then === 'function') {
+        return safeAsync({ fn: () => result as PromiseLike<unknown>, ...onError });
+    }
+    return Either.Ok(result);
+}
+
+/**
+ * Wraps every method of an object (e.g. an SDK client or a module namespace) so it returns Either
+ * - Methods returning a PromiseLike resolve to Either, others return Either directly
+ * - Methods are called on the original object, so internal calls are unaffected
+ * - Non-function properties are read through unchanged
+ * @template O - Type of the wrapped object
+ * @template E - Type of the error (must extend Error)
+ * @param obj - Object whose methods to wrap
+ * @param onError - Error class (receives the message and `{ cause }`) or onError factory
+ * @returns Eitherified<O, E> - Proxy with Either-returning methods
+ * @example
+ * ```typescript
+ * const s3 = eitherifyAll(new S3Client(config), StorageError);
+ * const object = await s3.getObject({ Bucket, Key }); // Either<GetObjectOutput, StorageError>
+ *
+ * const fsE = eitherifyAll(fs, IoError);
+ * const text = fsE.readFileSync('config.json', 'utf8'); // Either<string, IoError>
+ * ```
+ */
+export function eitherifyAll<O extends object, E extends Error>(obj: O, onError: ErrorHandlerLike<E>): Eitherified<O, E> {
+    const handler = toErrorHandler(onError);
+    const wrapped = new WeakMap<(...args: unknown[]) => unknown, (...args: unknown[]) => unknown>();
+
+    return new Proxy(obj, {
+        get(target, key) {
+            const value = Reflect.get(target, key);
+            if (typeof value !== 'function' || key === 'constructor') {
+                return value;
+            }
+
+            const original = value as (...args: unknown[]) => unknown;
+            let method = wrapped.get(original);
+            if (!method) {
+                method = (...args: unknown[]) => callWrapped(original, target, args, handler);
+                wrapped.set(original, method);
+            }
+            return method;
+        }
+    }) as unknown as Eitherified<O, E>;
+}
@@ -0,0 +1,181 @@
+import { Either } from './either';
+import type { EitherLike } from './either-async';
+import { TaggedError } from './tagged-error';
+
+/**
+ * Source accepted by the stream helpers - async iterables (including Node Readable streams) and plain iterables
+ * @template T - Type of the items
+ */
+export type StreamSource<T> = AsyncIterable<T> | Iterable<T>;
+
+/**
+ * Sinks receiving the two sides of a partitioned stream - returned promises are awaited (backpressure)
+ * @template T - Type of the success values
+ * @template E - Type of the errors
+ */
+export interface PartitionSinks<T, E> {
+    ok: (value: T) => void | PromiseLike<void>;
+    error: (error: E) => void | PromiseLike<void>;
+}
+
+/** Counts reported by partitionStream */
+export interface PartitionCounts {
+    ok: number;
+    error: number;
+}
+
+/** Options for collectWithErrorBudget */
+export interface ErrorBudgetOptions {
+    /** Number of errors tolerated - one more fails the collection */
+    maxErrors: number;
+}
+
+/**
+ * Result of collectWithErrorBudget when the budget holds
+ * @template T - Type of the success values
+ * @template E - Type of the tolerated errors
+ */
+export interface BudgetedCollection<T, E> {
+    values: T[];
+    errors: E[];
+}
+
+/**
+ * Error returned when a stream produces more errors than the budget allows, carrying them in order
+ * @template E - Type of each item's error
+ */
+export class ErrorBudgetExceededError<E> extends TaggedError('ErrorBudgetExceeded')<{
+    errors: unknown[];
+    maxErrors: number;
+}> {
+    declare readonly errors: E[];
+}
+
+/**
+ * Maps each item of a stream to an Either, so bad items become Error values instead of ending the stream
+ * - Items are processed one at a time, in order
+ * @template T - Type of the input items
+ * @template U - Type of the success values
+ * @template E - Type of the errors
+ * @param source - Async iterable, Node Readable or iterable
+ * @param fn - Function returning an Either (or a Promise of one) for each item and its index
+ * @returns AsyncGenerator<Either<U, E>> - One Either per item
+ * @example
+ * ```typescript
+ * const records = mapEither(csvStream, (line, i) => decodeRecord(line).mapError(e => ({ line: i, e })));
+ * for await (const record of records) {
+ *     // record: Either<Record, { line: number; e: DecodeError }>
+ * }
+ * ```
+ */
+export async function* mapEither<T, U, E>(
+    source: StreamSource<T>,
+    fn: (item: T, index: number) => EitherLike<U, E>
+): AsyncGenerator<Either<U, E>, void, undefined> {
+    let index = 0;
+    for await (const item of source) {
+        yield await fn(item, index++);
+    }
+}
+
+/**
+ * Passes through a stream of Eithers until the first Error, then stops reading the source (fail-fast)
+ * - The first Error is yielded as the last item so callers can see why the stream stopped
+ * @template T - Type of the success values
+ * @template E - Type of the errors
+ * @param source - Stream of Eithers
+ * @returns AsyncGenerator<Either<T, E>> - Ok items followed by at most one Error
+ * @example
+ * ```typescript
+ * for await (const row of takeUntilError(mapEither(rows, validate))) {
+ *     if (row.isError()) return reportAndAbort(row.getError());
+ *     await insert(row.getValue());
+ * }
+ * ```
+ */
+export async function* takeUntilError<T, E>(
+    source: StreamSource<Either<T, E>>
+): AsyncGenerator<Either<T, E>, void, undefined> {
+    for await (const item of source) {
+        yield item;
+        if (item.isError()) {
+            return;
+        }
+    }
+}
+
+/**
+ * Consumes a stream of Eithers, sending Ok values and errors to separate sinks
+ * @template T - Type of the success values
+ * @template E - Type of the errors
+ * @param source - Stream of Eithers
+ * @param sinks - Handlers for Ok values and errors, awaited before the next item is read
+ * @returns Promise<PartitionCounts> - Number of items sent to each sink
+ * @example
+ * ```typescript
+ * const counts = await partitionStream(mapEither(queueBatch, parseMessage), {
+ *     ok: message => handler.process(message),
+ *     error: error => deadLetterQueue.send(error)
+ * });
+ * ```
+ */
+export async function partitionStream<T, E>(
+    source: StreamSource<Either<T, E>>,
+    sinks: PartitionSinks<T, E>
+): Promise<PartitionCounts> {
+    const counts: PartitionCounts = { ok: 0, error: 0 };
+    for await (const item of source) {
+        if (item.isOk()) {
+            await sinks.ok(item.getValue());
+            counts.ok++;
+        } else {
+            await sinks.error(item.getError());
+            counts.error++;
+        }
+    }
+    return counts;
+}
+
+/**
+ * Collects a stream of Eithers, tolerating up to maxErrors errors
+ * - As soon as the budget is exceeded the source stops being read (a Node Readable is destroyed)
+ * - Use `{ maxErrors: 0 }` for fail-fast collection
+ * @template T - Type of the success values
+ * @template E - Type of the errors
+ * @param source - Stream of Eithers
+ * @param options - Error budget
+ * @returns Promise<Either<BudgetedCollection<T, E>, ErrorBudgetExceededError<E>>> - Values and tolerated errors, or every error seen so far
+ * @example
+ * ```typescript
+ * const imported = await collectWithErrorBudget(mapEither(exportFile, parseRow), { maxErrors: 10 });
+ * imported.fold({
+ *     fnOk: ({ values, errors }) => log(`imported ${values.length}, skipped ${errors.length}`),
+ *     fnError: error => alert(`aborted after ${error.errors.length} bad rows`)
+ * });
+ * ```
+ */
+export async function collectWithErrorBudget<T, E>(
+    source: StreamSource<Either<T, E>>,
+    { maxErrors }: ErrorBudgetOptions
+): Promise<Either<BudgetedCollection<T, E>, ErrorBudgetExceededError<E>>> {
+    const values: T[] = [];
+    const errors: E[] = [];
+
+    for await (const item of source) {
+        if (item.isOk()) {
+            values.push(item.getValue());
+            continue;
+        }
+
+        errors.push(item.getError());
+        if (errors.length > maxErrors) {
+            return Either.Error(new ErrorBudgetExceededError<E>({
+                errors,
+                maxErrors,
+                message: `Error budget exceeded: ${errors.length} errors (max ${maxErrors})`
+            }));
+        }
+    }
+
+    return Either.Ok({ values, errors });
+}
@@ -1,4 +1,5 @@
 import { Either } from "./either";
+import { TaggedError } from "./tagged-error";
 
 /** Type alias for successful Either with never error type */
 export type OK<T> = Either<T, never>;
@@ -6,27 +7,86 @@ export type OK<T> = Either<T, never>;
 /** Type alias for failed Either with never success type */
 export type ErrorType<E> = Either<never, E>;
 
-/** Constructor type for creating error instances */
-export type Constructor<T extends Error> = new (message?: string) => T;
+/**
+ * Extracts the union of error types from a union of Either types
+ * @template Y - Union of Either types (e.g. the values yielded inside Either.gen)
+ */
+export type ErrorOf<Y> = Y extends Either<unknown, infer E> ? E : never;
+
+/**
+ * Record type produced by Either.bind and Either.let
+ * @template S - Current record of named values
+ * @template K - Name of the value being added
+ * @template U - Type of the value being added
+ */
+export type Bound<S, K extends PropertyKey, U> = { readonly [P in keyof S | K]: P extends keyof S ? S[P] : U };
+
+/** Constructor type for creating error instances - the original thrown value is passed as `{ cause }` (ES2022 Error options) */
+export type Constructor<T extends Error> = new (message?: string, options?: { cause?: unknown }) => T;
+
+/** Context passed to onError factories */
+export interface ErrorFactoryContext {
+  /** Message extracted from the thrown value (Error message, string, or inspected object) */
+  message: string;
+}
+
+/**
+ * Factory that turns a caught value into an error
+ * @template E - Type of the error (must extend Error)
+ */
+export type ErrorFactory<E extends Error> = (thrown: unknown, ctx: ErrorFactoryContext) => E;
+
+/**
+ * How safeSync and safeAsync turn caught values into errors - an error class or an onError factory
+ * @template E - Type of the error (must extend Error)
+ */
+export type ErrorHandler<E extends Error> =
+  | { ErrClass: Constructor<E>; onError?: never }
+  | { onError: ErrorFactory<E>; ErrClass?: never };
 
 /**
- * Arguments interface for safeAsync function
+ * Error class or onError factory, accepted positionally by liftSync, liftAsync and eitherifyAll
+ * @template E - Type of the error (must extend Error)
+ */
+export type ErrorHandlerLike<E extends Error> = Constructor<E> | ErrorFactory<E>;
+
+/**
+ * Arguments type for safeAsync function
  * @template T - Type of the success value
  * @template E - Type of the error (must extend Error)
  */
-interface SafeAsyncArgs<T, E extends Error> {
-  /** Function that returns a Promise-like value */
-  fn: () => PromiseLike<T>;
-  /** Error constructor class */
-  ErrClass: Constructor<E>;
-}
+type SafeAsyncArgs<T, E extends Error> = {
+  /** Function that returns a Promise-like value - receives a signal that aborts on timeout or cancellation */
+  fn: (signal: AbortSignal) => PromiseLike<T>;
+  /** Maximum duration in milliseconds before resolving with TimeoutError */
+  timeoutMs?: number;
+  /** Caller signal - aborting it resolves with AbortedError */
+  signal?: AbortSignal;
+} & ErrorHandler<E>;
+
+/**
+ * safeAsync options that make the operation cancellable - timeoutMs or signal is passed, even as a possibly undefined value
+ * (`signal: req.signal`), since either can produce TimeoutError / AbortedError at runtime
+ */
+type CancellableArgs =
+  | { timeoutMs: number | undefined; signal?: AbortSignal }
+  | { timeoutMs?: number; signal: AbortSignal | undefined };
+
+/** safeAsync options without cancellation - forbids the keys so any call passing them resolves to a cancellable overload */
+type NonCancellableArgs = { timeoutMs?: never; signal?: never };
+
+/** Error returned by safeAsync when the operation exceeds timeoutMs */
+export class TimeoutError extends TaggedError("TimeoutError")<{ timeoutMs: number }> {}
+
+/** Error returned by safeAsync when the caller's signal aborts the operation */
+export class AbortedError extends TaggedError("AbortedError")<{ reason: unknown }> {}
 
 /**
  * Inspects objects for error messages with cross-platform compatibility
  * @param data - Object to inspect
  * @returns Human-readable string representation
  */
-function inspectObject(data: object): string {
+export function inspectObject(data: object): string {
   // Node.js environment detection
   const isNodeJS = typeof process !== "undefined" && process.versions?.node;
   if (isNodeJS) {
@@ -55,7 +115,7 @@ function inspectObject(data: object): string {
  * @param error - Unknown error value
  * @returns String representation of the error
  */
-function extractErrorMessage(error: unknown): string {
+export function extractErrorMessage(error: unknown): string {
     const getErrorIfString = (error: unknown) => {
         return typeof error === "string"
             ? error
@@ -71,6 +131,65 @@ function extractErrorMessage(error: unknown): string {
     : getErrorIfString(error);
 }
 
+/**
+ * Converts a caught value into an error through ErrClass or onError, keeping the thrown value as `cause`
+ * - Error classes receive `{ cause: thrown }` as the second constructor argument
+ * - If the resulting error has no cause (e.g. the class ignores its options), the thrown value is attached as a non-enumerable `cause`
+ * @template E - Type of the error (must extend Error)
+ * @param thrown - Caught value
+ * @param handler - ErrClass or onError
+ * @returns E - Error to return in the Error channel
+ */
+export function toCaughtError<E extends Error>(thrown: unknown, handler: ErrorHandler<E>): E {
+  const message = extractErrorMessage(thrown);
+  const error = handler.onError
+    ? handler.onError(thrown, { message })
+    : new handler.ErrClass(message, { cause: thrown });
+
+  if (error !== thrown && (error as E & { cause?: unknown }).cause === undefined) {
+    Object.defineProperty(error, "cause", { value: thrown, writable: true, configurable: true, enumerable: false });
+  }
+  return error;
+}
+
+/**
+ * Normalizes an error class or factory into an ErrorHandler
+ * @template E - Type of the error (must extend Error)
+ * @param handler - Error class (Error or a subclass) or onError factory
+ * @returns ErrorHandler<E> - { ErrClass } for error classes, { onError } otherwise
+ */
+export function toErrorHandler<E extends Error>(handler: ErrorHandlerLike<E>): ErrorHandler<E> {
+  const isErrorClass = (handler as unknown) === Error || handler.prototype instanceof Error;
+  return isErrorClass
+    ? { ErrClass: handler as Constructor<E> }
+    : { onError: handler as ErrorFactory<E> };
+}
+
+/**
+ * Overload for cancellable operations where fn() returns Either<U, V>
+ * @template U - Type of the nested Either's success value
+ * @template V - Type of the nested Either's error value
+ * @template E - Type of the wrapper error (must extend Error)
+ * @param args - Configuration object with timeoutMs and/or signal
+ * @returns Promise<Either<U, V | E | TimeoutError | AbortedError>> - Promise of Either with flattened and cancellation error types
+ */
+export async function safeAsync<U, V, E extends Error>(
+  args: {
+    fn: (signal: AbortSignal) => PromiseLike<Either<U, V>>;
+  } & ErrorHandler<E> & CancellableArgs
+): Promise<Either<U, V | E | TimeoutError | AbortedError>>;
+
+/**
+ * Overload for cancellable operations where fn() returns T (not Either)
+ * @template T - Type of the success value
+ * @template E - Type of the error (must extend Error)
+ * @param args - Configuration object with timeoutMs and/or signal
+ * @returns Promise<Either<T, E | TimeoutError | AbortedError>> - Promise of Either result including cancellation errors
+ */
+export async function safeAsync<T, E extends Error>(
+  args: SafeAsyncArgs<T, E> & CancellableArgs
+): Promise<Either<T, E | TimeoutError | AbortedError>>;
+
 /**
  * Overload for when fn() returns Either<U, V>
  * @template U - Type of the nested Either's success value
@@ -79,15 +198,14 @@ function extractErrorMessage(error: unknown): string {
  * @param args - Configuration object
  * @param args.fn - Function that returns a Promise of Either
  * @param args.ErrClass - Error constructor for caught exceptions
+ * @param args.onError - Alternative factory for caught exceptions
  * @returns Promise<Either<U, V | E>> - Promise of Either with flattened error types
  */
-export async function safeAsync<U, V, E extends Error>({
-  fn,
-  ErrClass,
-}: {
-  fn: () => PromiseLike<Either<U, V>>;
-  ErrClass: Constructor<E>;
-}): Promise<Either<U, V | E>>;
+export async function safeAsync<U, V, E extends Error>(
+  args: {
+    fn: (signal: AbortSignal) => PromiseLike<Either<U, V>>;
+  } & ErrorHandler<E> & NonCancellableArgs
+): Promise<Either<U, V | E>>;
 
 /**
  * Overload for when fn() returns T (not Either)
@@ -96,18 +214,22 @@ export async function safeAsync<U, V, E extends Error>({
  * @param args - Configuration object
  * @param args.fn - Function that returns a Promise-like value
  * @param args.ErrClass - Error constructor for caught exceptions
+ * @param args.onError - Alternative factory for caught exceptions
  * @returns Promise<Either<T, E>> - Promise of Either result
  */
-export async function safeAsync<T, E extends Error>({ fn, ErrClass }: SafeAsyncArgs<T, E>): Promise<Either<T, E>>;
+export async function safeAsync<T, E extends Error>(args: SafeAsyncArgs<T, E> & NonCancellableArgs): Promise<Either<T, E>>;
 
 /**
  * Wraps an asynchronous operation that may throw, converting exceptions to Either
  * @template T - Type of the success value
  * @template E - Type of the error (must extend Error)
  * @param args - Configuration object
- * @param args.fn - Async function to execute safely
- * @param args.ErrClass - Error constructor for caught exceptions
- * @returns Promise<Either<T, E>> - Promise of Either result
+ * @param args.fn - Async function to execute safely, receiving an AbortSignal
+ * @param args.ErrClass - Error constructor for caught exceptions, called with the message and `{ cause: thrown }`
+ * @param args.onError - Alternative factory receiving the thrown value and `{ message }`
+ * @param args.timeoutMs - Optional deadline, resolves with TimeoutError when exceeded
+ * @param args.signal - Optional caller signal, resolves with AbortedError when aborted
+ * @returns Promise<Either<T, E | TimeoutError | AbortedError>> - Promise of Either result
  * @example
  * ```typescript
  * const result = await safeAsync({
@@ -119,21 +241,74 @@ export async function safeAsync<T, E extends Error>({ fn, ErrClass }: SafeAsyncA
  *     fnOk: (data) => console.log('Success:', data),
  *     fnError: (error) => console.log('Failed:', error.message)
  * });
+ *
+ * const bounded = await safeAsync({
+ *     fn: (signal) => fetch('/api/slow', { signal }).then(r => r.json()),
+ *     ErrClass: Error,
+ *     timeoutMs: 5000,
+ *     signal: request.signal
+ * });
+ *
+ * const withFactory = await safeAsync({
+ *     fn: () => api.getUser(id),
+ *     onError: (thrown, { message }) => new ApiError({ message, status: getStatus(thrown), cause: thrown })
+ * });
  * ```
  */
-export async function safeAsync<T, E extends Error>({ fn, ErrClass }: SafeAsyncArgs<T, E>): Promise<Either<T, E>> {
-  try {
-    const value = await fn();
+export async function safeAsync<T, E extends Error>(
+  args: SafeAsyncArgs<T, E>
+): Promise<Either<T, E | TimeoutError | AbortedError>> {
+  const { fn, timeoutMs, signal } = args;
+  const controller = new AbortController();
+  const run = async (): Promise<Either<T, E>> => {
+    try {
+      const value = await fn(controller.signal);
 
-    // Type-safe check for Either instances
-    if (value instanceof Either) {
-      return value;
+      // Type-safe check for Either instances
+      if (value instanceof Either) {
+        return value;
+      }
+
+      return Either.Ok(value);
+    } catch (error) {
+      return Either.Error(toCaughtError(error, args));
     }
+  };
 
-    return Either.Ok(value);
-  } catch (error) {
-    const msg = extractErrorMessage(error);
-    return Either.Error(new ErrClass(msg));
+  if (timeoutMs === undefined && signal === undefined) {
+    return run();
+  }
+
+  const aborted = (): AbortedError =>
+    new AbortedError({ reason: signal?.reason, message: "Operation was aborted" });
+  if (signal?.aborted) {
+    return Either.Error(aborted());
+  }
+
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  let onAbort: (() => void) | undefined;
+  const cancelled = new Promise<Either<never, TimeoutError | AbortedError>>((resolve) => {
+    const cancel = (error: TimeoutError | AbortedError) => {
+      controller.abort(error);
+      resolve(Either.Error(error));
+    };
+    if (timeoutMs !== undefined) {
+      timer = setTimeout(
+        () => cancel(new TimeoutError({ timeoutMs, message: `Operation timed out after ${timeoutMs}ms` })),
+        timeoutMs
+      );
+    }
+    if (signal) {
+      onAbort = () => cancel(aborted());
+      signal.addEventListener("abort", onAbort, { once: true });
+    }
+  });
+
+  try {
+    return await Promise.race([run(), cancelled]);
+  } finally {
+    clearTimeout(timer);
+    if (onAbort) signal?.removeEventListener("abort", onAbort);
   }
 }
 
@@ -143,7 +318,8 @@ export async function safeAsync<T, E extends Error>({ fn, ErrClass }: SafeAsyncA
  * @template E - Type of the error (must extend Error)
  * @param args - Configuration object
  * @param args.fn - Function to execute safely
- * @param args.ErrClass - Error constructor for caught exceptions
+ * @param args.ErrClass - Error constructor for caught exceptions, called with the message and `{ cause: thrown }`
+ * @param args.onError - Alternative factory receiving the thrown value and `{ message }`
  * @returns Either<T, E> - Either containing success value or wrapped error
  * @example
  * ```typescript
@@ -162,18 +338,11 @@ export async function safeAsync<T, E extends Error>({ fn, ErrClass }: SafeAsyncA
  * });
  * ```
  */
-export function safeSync<T, E extends Error>({
-  fn,
-  ErrClass,
-}: {
-  fn: () => T;
-  ErrClass: Constructor<E>;
-}): Either<T, E> {
+export function safeSync<T, E extends Error>(args: { fn: () => T } & ErrorHandler<E>): Either<T, E> {
   try {
-    return Either.Ok(fn());
+    return Either.Ok(args.fn());
   } catch (error) {
-    const msg = extractErrorMessage(error);
-    return Either.Error(new ErrClass(msg));
+    return Either.Error(toCaughtError(error, args));
   }
 }
 
@@ -239,7 +408,7 @@ export function sequence<T, E>(eithers: Either<T, E>[]): Either<T[], E> {
   for (let i = 0; i < eithers.length; i++) {
     const either = eithers[i];
     if (either.isError()) {
-      return Either.Error(either.getError());
+      return either;
     }
     results[i] = either.getValue();
   }
@@ -301,7 +470,7 @@ export function traverse<T, U, E>(values: T[], fn: (value: T) => Either<U, E>):
   for (let i = 0; i < values.length; i++) {
     const either = fn(values[i]);
     if (either.isError()) {
-      return Either.Error(either.getError());
+      return either;
     }
     results[i] = either.getValue();
   }
@@ -329,3 +498,182 @@ export function collectAllErrors<T, E>(eithers: Either<T, E>[]): Either<T[], E[]
   const [oks, errors] = partition(eithers);
   return errors.length > 0 ? Either.Error(errors) : Either.Ok(oks);
 }
+
+/**
+ * Options for traverseAsync and sequenceAsync
+ */
+export interface TraverseAsyncOptions {
+  /** Maximum number of operations running at once - a positive integer or Infinity (defaults to no limit) */
+  concurrency?: number;
+  /** "fail-fast" (default) stops at the first error and aborts in-flight work, "accumulate" collects every error */
+  mode?: "fail-fast" | "accumulate";
+}
+
+/** Async operation used by traverseAsync and sequenceAsync - the signal aborts when fail-fast stops early */
+type AsyncTask<U, E> = (signal: AbortSignal) => Either<U, E> | PromiseLike<Either<U, E>>;
+
+/**
+ * Runs tasks with a concurrency limit, storing results by input index
+ * - Rejects with a RangeError when concurrency is not a positive integer or Infinity
+ * @param count - Number of tasks
+ * @param run - Starts the task at the given index
+ * @param options - Concurrency limit and error mode
+ * @returns Promise of all values in input order, or the first error / all errors depending on mode
+ */
+function runConcurrently<U, E>(
+  count: number,
+  run: (index: number, signal: AbortSignal) => Either<U, E> | PromiseLike<Either<U, E>>,
+  { concurrency = Infinity, mode = "fail-fast" }: TraverseAsyncOptions
+): Promise<Either<U[], E | E[]>> {
+  return new Promise((resolve, reject) => {
+    if (concurrency !== Infinity && !(Number.isInteger(concurrency) && concurrency > 0)) {
+      throw new RangeError(`concurrency must be a positive integer or Infinity, received ${concurrency}`);
+    }
+    const controller = new AbortController();
+    const results = new Array<U>(count);
+    const errors: [number, E][] = [];
+    let started = 0;
+    let active = 0;
+    let completed = 0;
+    let settled = false;
+
+    const settle = (either: Either<U[], E | E[]>) => {
+      settled = true;
+      resolve(either);
+    };
+
+    const launch = () => {
+      while (!settled && active < concurrency && started < count) {
+        const index = started++;
+        active++;
+        Promise.resolve()
+          .then(() => run(index, controller.signal))
+          .then(
+            (either) => {
+              active--;
+              if (settled) return;
+
+              if (either.isError()) {
+                if (mode === "fail-fast") {
+                  controller.abort(either.getError());
+                  return settle(either);
+                }
+                errors.push([index, either.getError()]);
+              } else {
+                results[index] = either.getValue();
+              }
+
+              if (++completed === count) {
+                settle(errors.length > 0
+                  ? Either.Error(errors.sort(([a], [b]) => a - b).map(([, error]) => error))
+                  : Either.Ok(results));
+              } else {
+                launch();
+              }
+            },
+            (error) => {
+              active--;
+              if (settled) return;
+              settled = true;
+              controller.abort(error);
+              reject(error);
+            }
+          );
+      }
+    };
+
+    if (count === 0) {
+      settle(Either.Ok(results));
+    } else {
+      launch();
+    }
+  });
+}
+
+/**
+ * Overload for accumulate mode - returns every error like collectAllErrors
+ * @template T - Type of input values
+ * @template U - Type of output success values
+ * @template E - Type of error values
+ * @param values - Array of input values to transform
+ * @param fn - Async function that converts each value to Either
+ * @param options - Concurrency limit and mode "accumulate"
+ * @returns Promise<Either<U[], E[]>> - All values in input order, or all errors in input order
+ */
+export function traverseAsync<T, U, E>(
+  values: T[],
+  fn: (value: T, index: number, signal: AbortSignal) => Either<U, E> | PromiseLike<Either<U, E>>,
+  options: TraverseAsyncOptions & { mode: "accumulate" }
+): Promise<Either<U[], E[]>>;
+
+/**
+ * Maps array values to Either with bounded concurrency, preserving input order
+ * @template T - Type of input values
+ * @template U - Type of output success values
+ * @template E - Type of error values
+ * @param values - Array of input values to transform
+ * @param fn - Async function that converts each value to Either - its signal aborts when another value fails
+ * @param options - Concurrency limit and mode (defaults to fail-fast)
+ * @returns Promise<Either<U[], E>> - All values in input order, or the first error encountered
+ * @example
+ * ```typescript
+ * const users = await traverseAsync(
+ *     ids,
+ *     (id, _, signal) => safeAsync({ fn: () => api.getUser(id, { signal }), ErrClass: ApiError }),
+ *     { concurrency: 5 }
+ * );
+ * ```
+ */
+export function traverseAsync<T, U, E>(
+  values: T[],
+  fn: (value: T, index: number, signal: AbortSignal) => Either<U, E> | PromiseLike<Either<U, E>>,
+  options?: TraverseAsyncOptions & { mode?: "fail-fast" }
+): Promise<Either<U[], E>>;
+
+export function traverseAsync<T, U, E>(
+  values: T[],
+  fn: (value: T, index: number, signal: AbortSignal) => Either<U, E> | PromiseLike<Either<U, E>>,
+  options: TraverseAsyncOptions = {}
+): Promise<Either<U[], E | E[]>> {
+  return runConcurrently(values.length, (index, signal) => fn(values[index], index, signal), options);
+}
+
+/**
+ * Overload for accumulate mode - returns every error like collectAllErrors
+ * @template T - Type of success values
+ * @template E - Type of error values
+ * @param tasks - Functions starting each async operation
+ * @param options - Concurrency limit and mode "accumulate"
+ * @returns Promise<Either<T[], E[]>> - All values in input order, or all errors in input order
+ */
+export function sequenceAsync<T, E>(
+  tasks: AsyncTask<T, E>[],
+  options: TraverseAsyncOptions & { mode: "accumulate" }
+): Promise<Either<T[], E[]>>;
+
+/**
+ * Runs async Either-returning tasks with bounded concurrency, preserving input order
+ * @template T - Type of success values
+ * @template E - Type of error values
+ * @param tasks - Functions starting each async operation - their signal aborts when another task fails
+ * @param options - Concurrency limit and mode (defaults to fail-fast)
+ * @returns Promise<Either<T[], E>> - All values in input order, or the first error encountered
+ * @example
+ * ```typescript
+ * const reports = await sequenceAsync(
+ *     regions.map(region => (signal) => safeAsync({ fn: () => api.getReport(region, { signal }), ErrClass: ApiError })),
+ *     { concurrency: 3, mode: "accumulate" }
+ * ); // Either<Report[], ApiError[]>
+ * ```
+ */
+export function sequenceAsync<T, E>(
+  tasks: AsyncTask<T, E>[],
+  options?: TraverseAsyncOptions & { mode?: "fail-fast" }
+): Promise<Either<T[], E>>;
+
+export function sequenceAsync<T, E>(
+  tasks: AsyncTask<T, E>[],
+  options: TraverseAsyncOptions = {}
+): Promise<Either<T[], E | E[]>> {
+  return runConcurrently(tasks.length, (index, signal) => tasks[index](signal), options);
+}
@@ -1,4 +1,12 @@
-import type { ErrorType, OK } from './either-types';
+import { EitherAsync } from './either-async';
+import { hashValue, structuralEq } from './either-eq';
+import type { Eq, EitherEqOptions } from './either-eq';
+import { EITHER_JSON_VERSION, eitherFromJSON, serializeError } from './either-json';
+import type { EitherJSON, FromJSONOptions } from './either-json';
+import { Option } from './option';
+import { hasTag } from './tagged-error';
+import type { MatchTagHandlers, Tagged, TagOf } from './tagged-error';
+import type { Bound, ErrorOf, ErrorType, OK } from './either-types';
 
 /**
  * Interface for pattern matching expressions in fold operations
@@ -24,11 +32,13 @@ export class Either<T, E> {
      * @param value - Success value (only for Ok instances)
      * @param error - Error value (only for Error instances)
      * @param _isOk - Boolean for result state
+     * @param frames - Context frames of an Error instance, innermost first
      */
     private constructor(
         private readonly value: T | undefined,
         private readonly error: E | undefined,
-        private readonly _isOk: boolean
+        private readonly _isOk: boolean,
+        private readonly frames: readonly string[] = []
     ) { }
 
     /**
@@ -61,6 +71,143 @@ export class Either<T, E> {
         return new Either(undefined, error, false) as ErrorType<E>;
     }
 
+    /**
+     * Creates an Error instance that keeps this Either's context frames
+     * @template F - Type of the error value
+     * @param error - The error value to wrap
+     * @returns ErrorType<F> - Error Either instance with the same frames
+     */
+    private withError<F>(error: F): ErrorType<F> {
+        return new Either(undefined, error, false, this.frames) as ErrorType<F>;
+    }
+
+    /**
+     * Starting point for building a record of named values with bind and let
+     * @example
+     * ```typescript
+     * const result = Either.Do
+     *     .bind('user', () => loadUser(id))
+     *     .bind('orders', ({ user }) => loadOrders(user.id))
+     *     .let('total', ({ orders }) => orders.length);
+     * ```
+     */
+    static readonly Do: Either<Record<never, never>, never> = Either.Ok({});
+
+    /**
+     * Starting point for building a record of named values from sync or async Either-returning steps
+     * @returns EitherAsync - Awaitable builder that resolves to Either of the accumulated record
+     * @example
+     * ```typescript
+     * const result = await Either.DoAsync
+     *     .bind('user', () => safeAsync({ fn: () => api.getUser(id), ErrClass: ApiError }))
+     *     .bind('orders', ({ user }) => safeAsync({ fn: () => api.getOrders(user.id), ErrClass: ApiError }))
+     *     .let('total', ({ orders }) => orders.length);
+     * ```
+     */
+    static get DoAsync(): EitherAsync<Record<never, never>, never> {
+        return EitherAsync.Do;
+    }
+
+    /**
+     * Runs a generator in do-notation style, unwrapping each yielded Either
+     * @template Y - Union of the Either types yielded with `yield*`
+     * @template R - Type of the generator's return value
+     * @param fn - Generator function that uses `yield*` on Either values
+     * @returns Either<R, ErrorOf<Y>> - Ok with the returned value, or the first Error yielded
+     * @example
+     * ```typescript
+     * const result = Either.gen(function* () {
+     *     const user = yield* loadUser(id);
+     *     const orders = yield* loadOrders(user);
+     *     return { user, orders };
+     * });
+     * ```
+     */
+    static gen<Y extends Either<unknown, unknown>, R>(fn: () => Generator<Y, R, never>): Either<R, ErrorOf<Y>> {
+        const iterator = fn();
+        let step = iterator.next();
+
+        while (!step.done) {
+            const either = step.value;
+            if (either.isError()) {
+                iterator.return(undefined as R);
+                return either as ErrorType<ErrorOf<Y>>;
+            }
+            step = iterator.next(either.getValue() as never);
+        }
+
+        return Either.Ok(step.value);
+    }
+
+    /**
+     * Async variant of Either.gen - use `yield* await` to unwrap Promise<Either> values such as safeAsync results
+     * @template Y - Union of the Either types yielded with `yield*`
+     * @template R - Type of the generator's return value
+     * @param fn - Async generator function that uses `yield*` on Either values
+     * @returns Promise<Either<R, ErrorOf<Y>>> - Promise of Ok with the returned value, or the first Error yielded
+     * @example
+     * ```typescript
+     * const result = await Either.genAsync(async function* () {
+     *     const user = yield* await safeAsync({ fn: () => api.getUser(id), ErrClass: ApiError });
+     *     const settings = yield* loadSettings(user);
+     *     return { user, settings };
+     * });
+     * ```
+     */
+    static async genAsync<Y extends Either<unknown, unknown>, R>(
+        fn: () => AsyncGenerator<Y, R, never>
+    ): Promise<Either<R, ErrorOf<Y>>> {
+        const iterator = fn();
+        let step = await iterator.next();
+
+        while (!step.done) {
+            const either = step.value;
+            if (either.isError()) {
+                await iterator.return(undefined as R);
+                return either as ErrorType<ErrorOf<Y>>;
+            }
+            step = await iterator.next(either.getValue() as never);
+        }
+
+        return Either.Ok(step.value);
+    }
+
+    /**
+     * Rebuilds an Either from the wire format produced by toJSON
+     * @template T - Type of the success value
+     * @template E - Type of the error value
+     * @param json - EitherJSON object or its JSON string
+     * @param options - Registry used to revive errors as instances of their original classes
+     * @returns Either<T, E> - Rebuilt Either
+     * @throws TypeError if the input is not a supported version of the wire format
+     * @example
+     * ```typescript
+     * errorRegistry.register(NotFoundError);
+     * const result = Either.fromJSON<User, NotFoundError>(await cache.get(key));
+     * result.getError() instanceof NotFoundError; // true
+     * ```
+     */
+    static fromJSON<T, E>(json: unknown, options?: FromJSONOptions): Either<T, E> {
+        return eitherFromJSON(json, options);
+    }
+
+    /**
+     * Creates an equality instance for Either values
+     * @template T - Type of the success value
+     * @template E - Type of the error value
+     * @param eqT - Equality for Ok values, defaults to structural equality
+     * @param eqE - Equality for Error values, defaults to structural equality (name plus message for Errors)
+     * @returns Eq<Either<T, E>> - Equality instance comparing state and contents
+     * @example
+     * ```typescript
+     * const eqById = Either.getEq<User, Error>({ equals: (a, b) => a.id === b.id });
+     * eqById.equals(Either.Ok(userV1), Either.Ok(userV2)); // true when ids match
+     * ```
+     */
+    static getEq<T, E>(eqT?: Eq<T>, eqE?: Eq<E>): Eq<Either<T, E>> {
+        return { equals: (a, b) => a.equals(b, { eqOk: eqT, eqError: eqE }) };
+    }
+
     /**
      * Type guard to check if Either contains a success value
      * @returns true if Either is Ok, false otherwise
@@ -162,7 +309,7 @@ export class Either<T, E> {
     public map<U>(fn: (value: T) => U): Either<U, E> {
         return this.isOk() 
             ? Either.Ok(fn(this.value!)) 
-            : Either.Error(this.error!);
+            : this.withError(this.error!);
     }
 
     /**
@@ -180,7 +327,52 @@ export class Either<T, E> {
     public flatMap<U>(fn: (value: T) => Either<U, E>): Either<U, E> {
         return this.isOk() 
             ? fn(this.value!) 
-            : Either.Error(this.error!);
+            : this.withError(this.error!);
+    }
+
+    /**
+     * Adds the success value of an Either-returning step to the record under the given name
+     * @template K - Name of the new field
+     * @template U - Type of the new field's value
+     * @template F - Error type of the step
+     * @param name - Name of the new field (must not already exist in the record)
+     * @param fn - Function that receives the current record and returns an Either
+     * @returns Either<Bound<T, K, U>, E | F> - Extended record, or the first error encountered
+     * @example
+     * ```typescript
+     * const result = Either.Do
+     *     .bind('user', () => findUser(1))
+     *     .bind('orders', ({ user }) => findOrders(user.id));
+     * ```
+     */
+    public bind<K extends string, U, F>(
+        name: Exclude<K, keyof T>,
+        fn: (scope: T) => Either<U, F>
+    ): Either<Bound<T, K, U>, E | F> {
+        if (this.isError()) {
+            return this.withError(this.error!);
+        }
+
+        const scope = this.value!;
+        return fn(scope).map(value => ({ ...scope, [name]: value }) as Bound<T, K, U>);
+    }
+
+    /**
+     * Adds a computed value to the record under the given name
+     * @template K - Name of the new field
+     * @template U - Type of the new field's value
+     * @param name - Name of the new field (must not already exist in the record)
+     * @param fn - Function that receives the current record and computes the value
+     * @returns Either<Bound<T, K, U>, E> - Extended record, or the original error
+     * @example
+     * ```typescript
+     * const result = Either.Do
+     *     .bind('items', () => loadItems())
+     *     .let('count', ({ items }) => items.length);
+     * ```
+     */
+    public let<K extends string, U>(name: Exclude<K, keyof T>, fn: (scope: T) => U): Either<Bound<T, K, U>, E> {
+        return this.map(scope => ({ ...scope, [name]: fn(scope) }) as Bound<T, K, U>);
     }
 
     /**
@@ -197,7 +389,7 @@ export class Either<T, E> {
      */
     public mapError<F>(fn: (error: E) => F): Either<T, F> {
         return this.isError() 
-            ? Either.Error(fn(this.error!)) 
+            ? this.withError(fn(this.error!)) 
             : Either.Ok(this.value!);
     }
 
@@ -228,9 +420,9 @@ export class Either<T, E> {
      */
     public zip<U>(other: Either<U, E>): Either<[T, U], E> {
         return this.isError() 
-            ? Either.Error(this.getError())
+            ? this.withError(this.error!)
             : other.isError()
-                ? Either.Error(other.getError())
+                ? other.withError(other.error!)
                 : Either.Ok([this.getValue(), other.getValue()]);
     }
 
@@ -283,6 +475,40 @@ export class Either<T, E> {
         return this.flatMap(fn);
     }
 
+    /**
+     * Compares with another Either - both must be Ok or both Error, with equal contents
+     * @param other - Either to compare with
+     * @param options - Custom equality for Ok and Error values (structural by default)
+     * @returns true if both Eithers are equal
+     * @example
+     * ```typescript
+     * Either.Ok({ id: 1 }).equals(Either.Ok({ id: 1 })); // true
+     * Either.Error(new Error('x')).equals(Either.Error(new Error('x'))); // true - same name and message
+     * ```
+     */
+    public equals(other: Either<T, E>, { eqOk, eqError }: EitherEqOptions<T, E> = {}): boolean {
+        if (this.isOk() !== other.isOk()) {
+            return false;
+        }
+
+        return this.isOk()
+            ? (eqOk ?? structuralEq).equals(this.value!, other.getValue())
+            : (eqError ?? structuralEq).equals(this.error!, other.getError());
+    }
+
+    /**
+     * Computes a stable hash consistent with the default structural equality
+     * @returns Unsigned 32-bit integer - structurally equal Eithers hash to the same number
+     * @example
+     * ```typescript
+     * const seen = new Map<number, Either<Order, Error>>();
+     * seen.set(result.hash(), result);
+     * ```
+     */
+    public hash(): number {
+        return hashValue(this);
+    }
+
     /**
      * Converts Either to Promise (resolves Ok, rejects Error)
      * @returns Promise<T> - Promise that resolves with success value or rejects with error
@@ -298,6 +524,21 @@ export class Either<T, E> {
             : Promise.reject(this.error);
     }
 
+    /**
+     * Converts Either to a chainable EitherAsync
+     * @returns EitherAsync<T, E> - EitherAsync resolving to this Either
+     * @example
+     * ```typescript
+     * const result = await Either.Ok(5)
+     *     .toAsync()
+     *     .flatMap(x => safeAsync({ fn: () => api.double(x), ErrClass: ApiError }))
+     *     .run();
+     * ```
+     */
+    public toAsync(): EitherAsync<T, E> {
+        return EitherAsync.from(this);
+    }
+
     /**
      * Converts Either to optional value
      * @returns T | undefined - Success value if Ok, undefined if Error
@@ -311,6 +552,32 @@ export class Either<T, E> {
         return this.isOk() ? this.value! : undefined;
     }
 
+    /**
+     * Converts Either to Option, discarding the error
+     * @returns Option<T> - Some with the success value if Ok, None if Error
+     * @example
+     * ```typescript
+     * const email = safeSync({ fn: () => parseEmail(input), ErrClass: Error }).toOption();
+     * ```
+     */
+    public toOption(): Option<T> {
+        return this.isOk() ? Option.Some(this.value!) : Option.None();
+    }
+
+    /**
+     * Converts Either to its versioned wire format - Errors keep name, message, stack, cause and own fields
+     * @returns EitherJSON<T> - `{ _tag: 'Ok', _version: 1, value }` or `{ _tag: 'Error', _version: 1, error }`
+     * @example
+     * ```typescript
+     * JSON.stringify(Either.Ok(42)); // {"_tag":"Ok","_version":1,"value":42}
+     * ```
+     */
+    public toJSON(): EitherJSON<T> {
+        return this.isOk()
+            ? { _tag: 'Ok', _version: EITHER_JSON_VERSION, value: this.value! }
+            : { _tag: 'Error', _version: EITHER_JSON_VERSION, error: serializeError(this.error) };
+    }
+
     /**
      * Swaps the Ok and Error positions
      * @returns Either<E, T> - Either with swapped success and error types
@@ -358,6 +625,60 @@ export class Either<T, E> {
         return this.isError() ? fn(this.error!) : this;
     }
 
+    /**
+     * Recovers from the error with the given tag, removing it from the error union
+     * @template K - Tag of the error to handle
+     * @template U - Type of the recovered success value
+     * @template F - Error type of the handler
+     * @param tag - Tag of the error to handle
+     * @param fn - Function that takes the narrowed error and returns an Either
+     * @returns Either<T | U, Exclude<E, Tagged<K>> | F> - Result of the handler, or the original Either
+     * @example
+     * ```typescript
+     * const user: Either<User | null, TimeoutError> = loadUser(id) // Either<User, NotFoundError | TimeoutError>
+     *     .catchTag('NotFound', () => Either.Ok(null));
+     * ```
+     */
+    public catchTag<K extends TagOf<E>, U, F = never>(
+        tag: K,
+        fn: (error: Extract<E, Tagged<K>>) => Either<U, F>
+    ): Either<T | U, Exclude<E, Tagged<K>> | F> {
+        return this.isError() && hasTag(this.error, tag)
+            ? fn(this.error as Extract<E, Tagged<K>>)
+            : this as Either<T | U, Exclude<E, Tagged<K>> | F>;
+    }
+
+    /**
+     * Handles every tagged error with its own handler - the compiler requires one handler per tag
+     * @template R - Return type of every handler
+     * @param handlers - One handler per tag, plus `orElse` if the error union has untagged members
+     * @returns Either<T | R, never> - Original Ok, or Ok with the handler result
+     * @example
+     * ```typescript
+     * const status = loadUser(id).matchTag({
+     *     NotFound: (error) => `missing ${error.id}`,
+     *     Timeout: (error) => `timed out after ${error.ms}ms`
+     * });
+     * ```
+     */
+    public matchTag<R>(handlers: MatchTagHandlers<E, R>): Either<T | R, never> {
+        if (this.isOk()) {
+            return Either.Ok(this.value!);
+        }
+
+        const error = this.error as E & Partial<Tagged>;
+        const table = handlers as Record<string, ((error: E) => R) | undefined>;
+        const handler = (typeof error === 'object' && error !== null && typeof error._tag === 'string'
+            ? table[error._tag]
+            : undefined) ?? table.orElse;
+
+        if (!handler) {
+            throw new Error(`No matchTag handler for error: ${String(error)}`);
+        }
+
+        return Either.Ok(handler(error));
+    }
+
     /**
      * Executes a side effect on success value without changing the Either
      * @param fn - Side effect function to execute on success value
@@ -389,4 +710,64 @@ export class Either<T, E> {
         if (this.isError()) fn(this.error!);
         return this;
     }
+
+    /**
+     * Adds a context frame describing the step that was running - no-op for Ok
+     * - The error value itself is not touched, so its type and identity are kept
+     * - Frames follow the error through map, flatMap, mapError, bind and zip
+     * @param frame - Description of the step that was running
+     * @returns Either<T, E> - New Either with the frame added, or this Ok unchanged
+     * @example
+     * ```typescript
+     * const user = loadUser(42).context('loading user 42');
+     * formatContext(user); // 'loading user 42 → connection refused'
+     * ```
+     */
+    public context(frame: string): Either<T, E> {
+        return this.isError()
+            ? new Either<T, E>(undefined, this.error, false, [...this.frames, frame])
+            : this;
+    }
+
+    /**
+     * Adds a lazily built context frame - fn only runs for Error instances
+     * @param fn - Function building the frame from the error
+     * @returns Either<T, E> - New Either with the frame added, or this Ok unchanged
+     * @example
+     * ```typescript
+     * const order = saveOrder(input).withContext(() => `saving order ${input.id}`);
+     * ```
+     */
+    public withContext(fn: (error: E) => string): Either<T, E> {
+        return this.isError() ? this.context(fn(this.error!)) : this;
+    }
+
+    /**
+     * Reads the context frames added with context and withContext
+     * @returns string[] - Frames from the outermost step to the innermost, empty for Ok
+     * @example
+     * ```typescript
+     * loadUser(42).context('loading user 42').context('saving order').getContext();
+     * // ['saving order', 'loading user 42']
+     * ```
+     */
+    public getContext(): string[] {
+        return [...this.frames].reverse();
+    }
+
+    /**
+     * Makes Either usable with `yield*` inside Either.gen and Either.genAsync
+     * @returns Generator that yields this Either and resumes with its success value
+     * @example
+     * ```typescript
+     * Either.gen(function* () {
+     *     const value = yield* Either.Ok(42); // value: number
+     *     return value;
+     * });
+     * ```
+     */
+    public *[Symbol.iterator](): Generator<Either<T, E>, T, unknown> {
+        // next is typed unknown so an Error, whose T is never, can still be delegated to
+        return (yield this) as T;
+    }
 }
@@ -0,0 +1,18 @@
+import type { Either } from './either';
+import { extractErrorMessage } from './either-types';
+
+/**
+ * Renders the context frames of an Either followed by its error message
+ * @param either - Either whose context to render
+ * @param separator - Text between frames
+ * @returns string - e.g. 'saving order → loading user 42 → connection refused', or '' for Ok
+ * @example
+ * ```typescript
+ * logger.error(formatContext(result));
+ * ```
+ */
+export function formatContext(either: Either<unknown, unknown>, separator = ' → '): string {
+    return either.isError()
+        ? [...either.getContext(), extractErrorMessage(either.getError())].join(separator)
+        : '';
+}
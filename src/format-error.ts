@@ -0,0 +1,155 @@
+import { Either } from './either';
+import { inspectObject } from './either-types';
+
+/** Options for formatError */
+export interface FormatErrorOptions {
+    /** 'text' for indented, human-readable lines, 'json' for a single-line JSON document (default 'text') */
+    format?: 'text' | 'json';
+    /** Include stack traces of Error values (default false) */
+    includeStack?: boolean;
+    /** Nesting levels of causes and aggregated errors to follow below the reported error (default 10) */
+    maxCauseDepth?: number;
+}
+
+/** One error in a report - the JSON format serializes this shape with keys in this order */
+export interface ErrorReportNode {
+    /** Error name, absent for non-Error payloads */
+    name?: string;
+    /** Error message, or the inspected payload */
+    message: string;
+    /** Context frames added with context/withContext, outermost first (reported error only) */
+    context?: string[];
+    /** Stack trace, with includeStack */
+    stack?: string;
+    /** Report of Error.cause */
+    cause?: ErrorReportNode;
+    /** Reports of aggregated errors (AggregateError.errors, RetryError.errors, arrays from collectAllErrors) */
+    errors?: ErrorReportNode[];
+    /** True when causes or aggregated errors were cut off by maxCauseDepth */
+    truncated?: true;
+}
+
+/**
+ * Reads the aggregated errors of a value - arrays and Errors with an `errors` array
+ * @param error - Value to read
+ * @returns unknown[] | undefined - Aggregated errors, if any
+ */
+function aggregatedErrors(error: unknown): unknown[] | undefined {
+    if (Array.isArray(error)) {
+        return error;
+    }
+    const errors = error instanceof Error ? (error as Error & { errors?: unknown }).errors : undefined;
+    return Array.isArray(errors) ? errors : undefined;
+}
+
+/**
+ * Builds the report of an error and everything it wraps
+ * @param error - Error channel value
+ * @param options - includeStack and maxCauseDepth
+ * @param depth - Nesting level of this error
+ * @param path - Values being reported above this one, to stop cycles
+ * @param context - Context frames of the Either, for the reported error
+ * @returns ErrorReportNode - Report with keys in a stable order
+ */
+function toReportNode(
+    error: unknown,
+    options: Required<Omit<FormatErrorOptions, 'format'>>,
+    depth: number,
+    path: Set<unknown>,
+    context: string[] = []
+): ErrorReportNode {
+    if (path.has(error)) {
+        return { message: `[Circular ${error instanceof Error ? error.name : 'Array'}]` };
+    }
+
+    const errors = aggregatedErrors(error);
+    const node: ErrorReportNode = error instanceof Error
+        ? { name: error.name, message: error.message }
+        : {
+            message: Array.isArray(error)
+                ? `${error.length} error${error.length === 1 ? '' : 's'}`
+                : typeof error === 'string'
+                    ? error
+                    : typeof error === 'object' && error !== null ? inspectObject(error) : String(error)
+        };
+
+    if (context.length > 0) node.context = context;
+    if (options.includeStack && error instanceof Error && error.stack) node.stack = error.stack;
+
+    const cause = error instanceof Error ? (error as Error & { cause?: unknown }).cause : undefined;
+    const hasChildren = cause !== undefined || (errors !== undefined && errors.length > 0);
+    if (!hasChildren) {
+        return node;
+    }
+    if (depth >= options.maxCauseDepth) {
+        node.truncated = true;
+        return node;
+    }
+
+    path.add(error);
+    if (cause !== undefined) node.cause = toReportNode(cause, options, depth + 1, path);
+    if (errors !== undefined && errors.length > 0) {
+        node.errors = errors.map(item => toReportNode(item, options, depth + 1, path));
+    }
+    path.delete(error);
+    return node;
+}
+
+/**
+ * Renders a report node as indented lines
+ * @param node - Report to render
+ * @param indent - Indentation of the node's first line
+ * @param prefix - Text before the node's first line (e.g. 'caused by: ')
+ * @returns string[] - Lines of the node and its children
+ */
+function toTextLines(node: ErrorReportNode, indent: string, prefix = ''): string[] {
+    const inner = indent + '  ';
+    const [first, ...rest] = (node.name !== undefined ? `${node.name}: ${node.message}` : node.message).split('\n');
+    const lines = [indent + prefix + first, ...rest.map(line => inner + line)];
+
+    if (node.context) lines.push(`${inner}context: ${node.context.join(' → ')}`);
+    if (node.stack) {
+        lines.push(...node.stack.split('\n').filter(line => /^\s*at /.test(line)).map(line => inner + line.trim()));
+    }
+    if (node.cause) lines.push(...toTextLines(node.cause, inner, 'caused by: '));
+    for (const child of node.errors ?? []) {
+        lines.push(...toTextLines(child, inner, '- '));
+    }
+    if (node.truncated) lines.push(`${inner}… (truncated)`);
+    return lines;
+}
+
+/**
+ * Formats the error of an Either for logs, following causes and aggregated errors
+ * - Walks Error.cause chains, errors arrays of AggregateError-like errors (RetryError, ErrorBudgetExceededError...)
+ *   and arrays such as the result of collectAllErrors
+ * - Non-Error payloads are rendered with the same inspection as safeSync/safeAsync messages
+ * - Context frames from context/withContext are included
+ * - 'json' produces `{"ok":false,"error":ErrorReportNode}` with keys in a stable order; Ok gives `{"ok":true}` (text: 'Ok')
+ * @param either - Either whose error to format
+ * @param options - Output format, stack traces and depth limit
+ * @returns string - Indented text or a JSON document
+ * @example
+ * ```typescript
+ * console.error(formatError(result, { includeStack: true }));
+ * // DbError: saving order failed
+ * //   context: saving order → loading user 42
+ * //   at saveOrder (orders.ts:12:11)
+ * //   caused by: Error: connection refused
+ *
+ * logger.error(formatError(result, { format: 'json', maxCauseDepth: 3 }));
+ * ```
+ */
+export function formatError(
+    either: Either<unknown, unknown>,
+    { format = 'text', includeStack = false, maxCauseDepth = 10 }: FormatErrorOptions = {}
+): string {
+    if (either.isOk()) {
+        return format === 'json' ? JSON.stringify({ ok: true }) : 'Ok';
+    }
+
+    const report = toReportNode(either.getError(), { includeStack, maxCauseDepth }, 0, new Set(), either.getContext());
+    return format === 'json'
+        ? JSON.stringify({ ok: false, error: report })
+        : toTextLines(report, '').join('\n');
+}
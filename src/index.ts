@@ -1,8 +1,82 @@
 export { Either } from './either';
+export { EitherAsync, EitherLike, DoAsync } from './either-async';
+export { ReleaseOutcome, DisposableResource, AsyncDisposableResource, ReleaseError, bracket, bracketAsync } from './either-bracket';
+export { NodeCallback, fromCallbackResult, eitherify, toCallback } from './either-callback';
+export { SafeSync, SafeAsync } from './either-decorators';
+export { Eq, EitherEqOptions, structuralEq, deepEqual, hashValue } from './either-eq';
+export {
+    EITHER_JSON_VERSION,
+    EitherJSON,
+    SerializedError,
+    SerializedErrorValue,
+    SerializedPlainValue,
+    ErrorRegistry,
+    FromJSONOptions,
+    errorRegistry,
+    serializeError,
+    deserializeError
+} from './either-json';
+export { LiftedAsyncResult, Eitherified, liftSync, liftAsync, eitherifyAll } from './either-lift';
+export {
+    StreamSource,
+    PartitionSinks,
+    PartitionCounts,
+    ErrorBudgetOptions,
+    BudgetedCollection,
+    ErrorBudgetExceededError,
+    mapEither,
+    takeUntilError,
+    partitionStream,
+    collectWithErrorBudget
+} from './either-stream';
+export { Decoder, DecodeError, DecodeIssue, Infer } from './decoder';
+export { formatContext } from './error-context';
+export { FormatErrorOptions, ErrorReportNode, formatError } from './format-error';
+export {
+    SpanOutcome,
+    SpanStartEvent,
+    SpanEndEvent,
+    InstrumentationEvent,
+    InstrumentationListener,
+    InstrumentationRegistry,
+    InstrumentOptions,
+    DurationHistogram,
+    OperationMetrics,
+    MetricsAggregatorOptions,
+    DEFAULT_DURATION_BUCKETS,
+    instrumentationRegistry,
+    instrument,
+    InMemoryRecorder,
+    MetricsAggregator
+} from './instrumentation';
+export { Random, Gen, LawName, LawOptions, LawReport, LawViolationError, checkLaws } from './laws';
+export { Option } from './option';
+export { pipe, flow, map, flatMap, mapError, filter, tap, recover, fold } from './pipeable';
+export { ReaderEither, ReaderEitherAsync, Remaining } from './reader-either';
+export {
+    RetryPolicy,
+    RetryError,
+    RetryOptions,
+    ConditionNotMetError,
+    Scheduler,
+    realScheduler,
+    retry,
+    pollUntil
+} from './retry';
+export { TaggedError, TaggedErrorConstructor, Tagged, TagOf, MatchTagHandlers } from './tagged-error';
+export { Validation, NonEmptyArray, ValidOf, InvalidOf } from './validation';
 export {
     OK,
     ErrorType,
+    ErrorOf,
+    Bound,
     Constructor,
+    ErrorFactory,
+    ErrorFactoryContext,
+    ErrorHandler,
+    ErrorHandlerLike,
+    TimeoutError,
+    AbortedError,
     safeAsync,
     safeSync,
     fromNullable,
@@ -10,5 +84,8 @@ export {
     sequence,
     partition,
     traverse,
-    collectAllErrors
+    collectAllErrors,
+    TraverseAsyncOptions,
+    traverseAsync,
+    sequenceAsync
 } from './either-types';
@@ -0,0 +1,379 @@
+import { Either } from './either';
+import { EitherAsync } from './either-async';
+import type { EitherLike } from './either-async';
+
+/** How an instrumented call ended - an Ok, an Error value, or an exception / rejection */
+export type SpanOutcome = 'ok' | 'error' | 'throw';
+
+/** Event emitted when an instrumented call starts */
+export interface SpanStartEvent {
+    type: 'span-start';
+    /** Operation name given to instrument */
+    name: string;
+    /** Identifier shared by the start and end events of one call */
+    spanId: number;
+    /** Start time in epoch milliseconds */
+    startTime: number;
+}
+
+/** Event emitted when an instrumented call ends */
+export interface SpanEndEvent extends Omit<SpanStartEvent, 'type'> {
+    type: 'span-end';
+    outcome: SpanOutcome;
+    /** Duration in milliseconds (high resolution) */
+    durationMs: number;
+    /** Constructor name of the error (typeof for non-Error values), absent for ok */
+    errorClass?: string;
+    /** The Error value or thrown value, absent for ok */
+    error?: unknown;
+}
+
+/** Union of the events emitted by instrument */
+export type InstrumentationEvent = SpanStartEvent | SpanEndEvent;
+
+/** Receiver of instrumentation events - both hooks are optional */
+export interface InstrumentationListener {
+    onSpanStart?(event: SpanStartEvent): void;
+    onSpanEnd?(event: SpanEndEvent): void;
+}
+
+/**
+ * Set of listeners notified by instrumented functions
+ * - A listener that throws is reported with console.warn and never affects the instrumented call
+ */
+export class InstrumentationRegistry {
+    /** Registered listeners, notified in registration order */
+    private readonly listeners = new Set<InstrumentationListener>();
+
+    /**
+     * Adds listeners
+     * @param listeners - Listeners to notify
+     * @returns this - For chaining
+     * @example
+     * ```typescript
+     * instrumentationRegistry.register(new MetricsAggregator(), otelBridge);
+     * ```
+     */
+    public register(...listeners: InstrumentationListener[]): this {
+        for (const listener of listeners) {
+            this.listeners.add(listener);
+        }
+        return this;
+    }
+
+    /**
+     * Removes listeners
+     * @param listeners - Listeners to stop notifying
+     * @returns this - For chaining
+     */
+    public unregister(...listeners: InstrumentationListener[]): this {
+        for (const listener of listeners) {
+            this.listeners.delete(listener);
+        }
+        return this;
+    }
+
+    /**
+     * Removes every listener
+     * @returns this - For chaining
+     */
+    public clear(): this {
+        this.listeners.clear();
+        return this;
+    }
+
+    /**
+     * Sends an event to every listener
+     * @param event - Span start or end event
+     */
+    public emit(event: InstrumentationEvent): void {
+        for (const listener of this.listeners) {
+            try {
+                if (event.type === 'span-start') {
+                    listener.onSpanStart?.(event);
+                } else {
+                    listener.onSpanEnd?.(event);
+                }
+            } catch (error) {
+                console.warn('@byzobss/either-monad: instrumentation listener failed', error);
+            }
+        }
+    }
+}
+
+/** Default registry used by instrument */
+export const instrumentationRegistry = new InstrumentationRegistry();
+
+/** Options for instrument */
+export interface InstrumentOptions {
+    /** Registry to notify, defaults to the shared instrumentationRegistry */
+    registry?: InstrumentationRegistry;
+}
+
+/** Last span id handed out, shared by every registry so ids stay unique */
+let lastSpanId = 0;
+
+/**
+ * Names the class of an error for metrics
+ * @param error - Error value or thrown value
+ * @returns Constructor name for Errors, typeof otherwise
+ */
+function errorClassOf(error: unknown): string {
+    return error instanceof Error ? error.constructor.name : typeof error;
+}
+
+/**
+ * Wraps a function returning Either (or a Promise / EitherAsync of one) so every call emits span events
+ * - span-start is emitted before the call, span-end once the Either is known, with outcome and duration
+ * - Exceptions and rejections end the span with outcome 'throw' and are rethrown unchanged
+ * - EitherAsync results stay EitherAsync; other PromiseLike results become Promises
+ * @template A - Parameter types of the function
+ * @template R - Return type of the function
+ * @param name - Operation name reported in the events (e.g. 'db.getUser')
+ * @param fn - Function to instrument
+ * @param options - Registry to notify
+ * @returns (...args: A) => R - Instrumented function, `this` is forwarded
+ * @example
+ * ```typescript
+ * const getUser = instrument('db.getUser', (id: string) =>
+ *     safeAsync({ fn: () => db.users.find(id), ErrClass: DbError })
+ * );
+ * await getUser('42'); // emits span-start, then span-end { outcome: 'ok', durationMs: 3.2 }
+ * ```
+ */
+export function instrument<A extends unknown[], R extends EitherLike<unknown, unknown>>(
+    name: string,
+    fn: (...args: A) => R,
+    { registry = instrumentationRegistry }: InstrumentOptions = {}
+): (...args: A) => R {
+    return function (this: unknown, ...args: A): R {
+        const start: SpanStartEvent = { type: 'span-start', name, spanId: ++lastSpanId, startTime: Date.now() };
+        const startedAt = performance.now();
+        registry.emit(start);
+
+        const end = (outcome: SpanOutcome, error?: unknown): void => {
+            registry.emit({
+                ...start,
+                type: 'span-end',
+                outcome,
+                durationMs: performance.now() - startedAt,
+                ...(outcome !== 'ok' && { errorClass: errorClassOf(error), error })
+            });
+        };
+        const endWith = <T, E>(either: Either<T, E>): Either<T, E> => {
+            if (either.isOk()) {
+                end('ok');
+            } else {
+                end('error', either.getError());
+            }
+            return either;
+        };
+
+        let result: R;
+        try {
+            result = fn.apply(this, args);
+        } catch (error) {
+            end('throw', error);
+            throw error;
+        }
+
+        if (result instanceof Either) {
+            return endWith(result) as R;
+        }
+
+        const settled = Promise.resolve(result).then(endWith, (reason: unknown) => {
+            end('throw', reason);
+            throw reason;
+        });
+        return (result instanceof EitherAsync ? EitherAsync.from(settled) : settled) as unknown as R;
+    };
+}
+
+/**
+ * Records every event in memory, for assertions in tests
+ * @example
+ * ```typescript
+ * const recorder = new InMemoryRecorder();
+ * instrumentationRegistry.register(recorder);
+ * await getUser('42');
+ * expect(recorder.spans('db.getUser')[0].outcome).toBe('ok');
+ * ```
+ */
+export class InMemoryRecorder implements InstrumentationListener {
+    /** Events in the order they were emitted */
+    public readonly events: InstrumentationEvent[] = [];
+
+    public onSpanStart(event: SpanStartEvent): void {
+        this.events.push(event);
+    }
+
+    public onSpanEnd(event: SpanEndEvent): void {
+        this.events.push(event);
+    }
+
+    /**
+     * Returns the finished spans
+     * @param name - Only return spans of this operation
+     * @returns SpanEndEvent[] - span-end events in completion order
+     */
+    public spans(name?: string): SpanEndEvent[] {
+        return this.events.filter((event): event is SpanEndEvent =>
+            event.type === 'span-end' && (name === undefined || event.name === name));
+    }
+
+    /** Forgets every recorded event */
+    public clear(): void {
+        this.events.length = 0;
+    }
+}
+
+/** Duration histogram of one operation */
+export interface DurationHistogram {
+    count: number;
+    /** Sum of durations in milliseconds */
+    sum: number;
+    min: number;
+    max: number;
+    /** Cumulative counts - each bucket counts durations less than or equal to `le` */
+    buckets: { le: number; count: number }[];
+}
+
+/** Counters and duration histogram of one operation */
+export interface OperationMetrics {
+    ok: number;
+    error: number;
+    throw: number;
+    /** Failures (error and throw outcomes) per error class */
+    errorClasses: Record<string, number>;
+    duration: DurationHistogram;
+}
+
+/** Options for MetricsAggregator */
+export interface MetricsAggregatorOptions {
+    /** Upper bounds of the duration buckets in milliseconds, defaults to DEFAULT_DURATION_BUCKETS */
+    buckets?: number[];
+}
+
+/** Default duration bucket bounds in milliseconds */
+export const DEFAULT_DURATION_BUCKETS: readonly number[] = [5, 10, 25, 50, 100, 250, 500, 1000, 2500, 5000, 10000];
+
+/**
+ * Escapes a Prometheus label value
+ * @param value - Raw label value
+ * @returns Value safe to put between double quotes
+ */
+function escapeLabel(value: string): string {
+    return value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n');
+}
+
+/**
+ * Aggregates span-end events into per-operation outcome counters and duration histograms
+ * @example
+ * ```typescript
+ * const metrics = new MetricsAggregator();
+ * instrumentationRegistry.register(metrics);
+ *
+ * http.createServer((req, res) => res.end(metrics.toPrometheus())).listen(9464); // local scrape endpoint
+ * metrics.snapshot()['db.getUser']; // { ok: 120, error: 3, throw: 0, errorClasses: { DbError: 3 }, duration: {...} }
+ * ```
+ */
+export class MetricsAggregator implements InstrumentationListener {
+    /** Sorted bucket upper bounds */
+    private readonly bounds: number[];
+    /** Metrics by operation name */
+    private readonly operations = new Map<string, OperationMetrics>();
+
+    constructor({ buckets = [...DEFAULT_DURATION_BUCKETS] }: MetricsAggregatorOptions = {}) {
+        this.bounds = [...buckets].sort((a, b) => a - b);
+    }
+
+    public onSpanEnd(event: SpanEndEvent): void {
+        let metrics = this.operations.get(event.name);
+        if (!metrics) {
+            metrics = {
+                ok: 0,
+                error: 0,
+                throw: 0,
+                errorClasses: {},
+                duration: {
+                    count: 0,
+                    sum: 0,
+                    min: Infinity,
+                    max: -Infinity,
+                    buckets: this.bounds.map(le => ({ le, count: 0 }))
+                }
+            };
+            this.operations.set(event.name, metrics);
+        }
+
+        metrics[event.outcome]++;
+        if (event.errorClass !== undefined) {
+            metrics.errorClasses[event.errorClass] = (metrics.errorClasses[event.errorClass] ?? 0) + 1;
+        }
+
+        const { duration } = metrics;
+        duration.count++;
+        duration.sum += event.durationMs;
+        duration.min = Math.min(duration.min, event.durationMs);
+        duration.max = Math.max(duration.max, event.durationMs);
+        for (const bucket of duration.buckets) {
+            if (event.durationMs <= bucket.le) bucket.count++;
+        }
+    }
+
+    /**
+     * Returns a copy of the metrics collected so far
+     * @returns Record<string, OperationMetrics> - Metrics by operation name
+     */
+    public snapshot(): Record<string, OperationMetrics> {
+        const snapshot: Record<string, OperationMetrics> = {};
+        for (const [name, metrics] of this.operations) {
+            snapshot[name] = {
+                ...metrics,
+                errorClasses: { ...metrics.errorClasses },
+                duration: { ...metrics.duration, buckets: metrics.duration.buckets.map(bucket => ({ ...bucket })) }
+            };
+        }
+        return snapshot;
+    }
+
+    /**
+     * Renders the metrics in the Prometheus text exposition format
+     * - `either_operation_total{operation, outcome}` counter
+     * - `either_operation_duration_ms{operation}` histogram
+     * @returns string - Text ready to serve from a scrape endpoint
+     */
+    public toPrometheus(): string {
+        const lines = [
+            '# HELP either_operation_total Instrumented calls by outcome',
+            '# TYPE either_operation_total counter'
+        ];
+        for (const [name, metrics] of this.operations) {
+            for (const outcome of ['ok', 'error', 'throw'] as const) {
+                lines.push(`either_operation_total{operation="${escapeLabel(name)}",outcome="${outcome}"} ${metrics[outcome]}`);
+            }
+        }
+
+        lines.push(
+            '# HELP either_operation_duration_ms Duration of instrumented calls in milliseconds',
+            '# TYPE either_operation_duration_ms histogram'
+        );
+        for (const [name, { duration }] of this.operations) {
+            const operation = `operation="${escapeLabel(name)}"`;
+            for (const bucket of duration.buckets) {
+                lines.push(`either_operation_duration_ms_bucket{${operation},le="${bucket.le}"} ${bucket.count}`);
+            }
+            lines.push(
+                `either_operation_duration_ms_bucket{${operation},le="+Inf"} ${duration.count}`,
+                `either_operation_duration_ms_sum{${operation}} ${duration.sum}`,
+                `either_operation_duration_ms_count{${operation}} ${duration.count}`
+            );
+        }
+        return lines.join('\n') + '\n';
+    }
+
+    /** Forgets every collected metric */
+    public reset(): void {
+        this.operations.clear();
+    }
+}
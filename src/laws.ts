@@ -0,0 +1,388 @@
+import { Either } from './either';
+import { hashValue } from './either-eq';
+import type { Eq } from './either-eq';
+import { TaggedError } from './tagged-error';
+
+/**
+ * Seedable pseudo-random number generator (mulberry32) - the same seed always yields the same sequence
+ */
+export class Random {
+    /** Internal 32-bit state */
+    private state: number;
+
+    /**
+     * @param seed - Any integer; only the low 32 bits are used
+     */
+    constructor(seed: number) {
+        this.state = seed >>> 0;
+    }
+
+    /**
+     * Returns the next float in [0, 1)
+     * @returns number - Uniformly distributed float
+     */
+    public next(): number {
+        this.state = (this.state + 0x6d2b79f5) >>> 0;
+        let t = this.state;
+        t = Math.imul(t ^ (t >>> 15), t | 1);
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    }
+
+    /**
+     * Returns an integer between min and max, both inclusive
+     * @param min - Lower bound
+     * @param max - Upper bound
+     * @returns number - Uniformly distributed integer
+     */
+    public int(min: number, max: number): number {
+        return min + Math.floor(this.next() * (max - min + 1));
+    }
+}
+
+/**
+ * Generator of random values driven by a Random instance
+ * @template T - Type of the generated values
+ */
+export class Gen<T> {
+    /**
+     * @param run - Produces a value from the random source
+     */
+    private constructor(private readonly run: (random: Random) => T) {}
+
+    /**
+     * Creates a generator from a function of the random source
+     * @template T - Type of the generated values
+     * @param run - Produces a value from the random source
+     * @returns Gen<T> - Custom generator
+     */
+    static from<T>(run: (random: Random) => T): Gen<T> {
+        return new Gen(run);
+    }
+
+    /**
+     * Always generates the same value
+     * @template T - Type of the value
+     * @param value - Value to generate
+     * @returns Gen<T> - Constant generator
+     */
+    static constant<T>(value: T): Gen<T> {
+        return new Gen(() => value);
+    }
+
+    /**
+     * Generates integers between min and max, both inclusive
+     * @param min - Lower bound, defaults to -1000
+     * @param max - Upper bound, defaults to 1000
+     * @returns Gen<number> - Integer generator
+     */
+    static int(min = -1000, max = 1000): Gen<number> {
+        return new Gen(random => random.int(min, max));
+    }
+
+    /** Generates true or false with equal probability */
+    static readonly boolean: Gen<boolean> = new Gen(random => random.next() < 0.5);
+
+    /**
+     * Generates strings of printable ASCII characters
+     * @param maxLength - Maximum length, defaults to 10
+     * @returns Gen<string> - String generator
+     */
+    static string(maxLength = 10): Gen<string> {
+        return new Gen(random => {
+            const length = random.int(0, maxLength);
+            let text = '';
+            for (let i = 0; i < length; i++) {
+                text += String.fromCharCode(random.int(32, 126));
+            }
+            return text;
+        });
+    }
+
+    /**
+     * Picks one of the given values
+     * @template T - Type of the values
+     * @param values - Candidates, at least one
+     * @returns Gen<T> - Generator choosing uniformly among the values
+     */
+    static oneOf<T>(...values: [T, ...T[]]): Gen<T> {
+        return new Gen(random => values[random.int(0, values.length - 1)]);
+    }
+
+    /**
+     * Generates arrays of values
+     * @template T - Type of the elements
+     * @param gen - Element generator
+     * @param maxLength - Maximum length, defaults to 5
+     * @returns Gen<T[]> - Array generator
+     */
+    static array<T>(gen: Gen<T>, maxLength = 5): Gen<T[]> {
+        return new Gen(random => Array.from({ length: random.int(0, maxLength) }, () => gen.run(random)));
+    }
+
+    /**
+     * Generates Ok and Error values
+     * @template T - Type of the success value
+     * @template E - Type of the error value
+     * @param ok - Generator of success values
+     * @param error - Generator of error values
+     * @param okRatio - Probability of generating an Ok, defaults to 0.5
+     * @returns Gen<Either<T, E>> - Either generator
+     */
+    static either<T, E>(ok: Gen<T>, error: Gen<E>, okRatio = 0.5): Gen<Either<T, E>> {
+        return new Gen((random): Either<T, E> => random.next() < okRatio
+            ? Either.Ok(ok.run(random))
+            : Either.Error(error.run(random)));
+    }
+
+    /**
+     * Generates pure functions - the same input always maps to the same output
+     * @template A - Type of the function input
+     * @template T - Type of the function output
+     * @param gen - Generator of outputs
+     * @returns Gen<(input: A) => T> - Function generator
+     * @example
+     * ```typescript
+     * const k = Gen.fn<number, Either<number, string>>(Gen.either(Gen.int(), Gen.string())).generate(new Random(1));
+     * k(3).equals(k(3)); // true
+     * ```
+     */
+    static fn<A, T>(gen: Gen<T>): Gen<(input: A) => T> {
+        return new Gen(random => {
+            const salt = random.int(0, 0xffffffff);
+            return (input: A) => gen.run(new Random(salt ^ hashValue(input)));
+        });
+    }
+
+    /**
+     * Transforms generated values
+     * @template U - Type of the transformed values
+     * @param fn - Transformation
+     * @returns Gen<U> - Transformed generator
+     */
+    public map<U>(fn: (value: T) => U): Gen<U> {
+        return new Gen(random => fn(this.run(random)));
+    }
+
+    /**
+     * Generates a single value
+     * @param random - Random source
+     * @returns T - Generated value
+     */
+    public generate(random: Random): T {
+        return this.run(random);
+    }
+
+    /**
+     * Generates several values from a seed, handy for inspecting a generator
+     * @param count - Number of values
+     * @param seed - Seed, defaults to 1
+     * @returns T[] - Generated values
+     */
+    public sample(count: number, seed = 1): T[] {
+        const random = new Random(seed);
+        return Array.from({ length: count }, () => this.run(random));
+    }
+}
+
+/** Names of the laws checked by checkLaws */
+export type LawName =
+    | 'functor.identity'
+    | 'functor.composition'
+    | 'monad.leftIdentity'
+    | 'monad.rightIdentity'
+    | 'monad.associativity'
+    | 'bifunctor.identity'
+    | 'bifunctor.composition'
+    | 'bifunctor.commutativity';
+
+/** All laws, in the order they are checked */
+const ALL_LAWS: LawName[] = [
+    'functor.identity',
+    'functor.composition',
+    'monad.leftIdentity',
+    'monad.rightIdentity',
+    'monad.associativity',
+    'bifunctor.identity',
+    'bifunctor.composition',
+    'bifunctor.commutativity'
+];
+
+/**
+ * Options for checkLaws
+ * - Functions that are not supplied are generated per run as random pure functions
+ * @template T - Type of the success value
+ * @template E - Type of the error value
+ */
+export interface LawOptions<T, E> {
+    /** Generator of success values */
+    ok: Gen<T>;
+    /** Generator of error values */
+    error: Gen<E>;
+    /** Seed for reproducible runs, defaults to a random seed reported in the result */
+    seed?: number;
+    /** Number of runs per law, defaults to 100 */
+    runs?: number;
+    /** Laws to check, defaults to all */
+    laws?: LawName[];
+    /** Equality used to compare both sides of a law, defaults to Either.getEq() */
+    eq?: Eq<Either<T, E>>;
+    /** Functions for map, used in functor and bifunctor laws */
+    f?: (value: T) => T;
+    g?: (value: T) => T;
+    /** Either-returning functions for flatMap, used in monad laws */
+    k?: (value: T) => Either<T, E>;
+    h?: (value: T) => Either<T, E>;
+    /** Functions for mapError, used in bifunctor laws */
+    fError?: (error: E) => E;
+    gError?: (error: E) => E;
+    /** Implementation of map to check, defaults to Either#map */
+    map?: (either: Either<T, E>, fn: (value: T) => T) => Either<T, E>;
+    /** Implementation of flatMap to check, defaults to Either#flatMap */
+    flatMap?: (either: Either<T, E>, fn: (value: T) => Either<T, E>) => Either<T, E>;
+    /** Implementation of mapError to check, defaults to Either#mapError */
+    mapError?: (either: Either<T, E>, fn: (error: E) => E) => Either<T, E>;
+}
+
+/** Summary of a successful law check */
+export interface LawReport {
+    seed: number;
+    runs: number;
+    laws: LawName[];
+}
+
+/** Error returned when a law does not hold, with everything needed to reproduce it */
+export class LawViolationError extends TaggedError('LawViolation')<{
+    law: LawName;
+    seed: number;
+    run: number;
+    input: unknown;
+    left: unknown;
+    right: unknown;
+}> {}
+
+/** Functions used by a single run */
+interface RunFunctions<T, E> {
+    f: (value: T) => T;
+    g: (value: T) => T;
+    k: (value: T) => Either<T, E>;
+    h: (value: T) => Either<T, E>;
+    fError: (error: E) => E;
+    gError: (error: E) => E;
+}
+
+/** Operations whose laws are checked */
+interface LawfulOperations<T, E> {
+    map: (either: Either<T, E>, fn: (value: T) => T) => Either<T, E>;
+    flatMap: (either: Either<T, E>, fn: (value: T) => Either<T, E>) => Either<T, E>;
+    mapError: (either: Either<T, E>, fn: (error: E) => E) => Either<T, E>;
+}
+
+/**
+ * Evaluates both sides of a law for a generated input
+ * @param law - Law to evaluate
+ * @param m - Generated Either
+ * @param a - Generated success value
+ * @param fns - Functions for this run
+ * @param ops - Operations under test
+ * @returns [input, left, right] - Input shown in reports and both sides of the law
+ */
+function evaluateLaw<T, E>(
+    law: LawName,
+    m: Either<T, E>,
+    a: T,
+    { f, g, k, h, fError, gError }: RunFunctions<T, E>,
+    { map, flatMap, mapError }: LawfulOperations<T, E>
+): [unknown, Either<T, E>, Either<T, E>] {
+    const unit = (value: T): Either<T, E> => Either.Ok(value);
+
+    switch (law) {
+    case 'functor.identity':
+        return [m, map(m, x => x), m];
+    case 'functor.composition':
+        return [m, map(map(m, f), g), map(m, x => g(f(x)))];
+    case 'monad.leftIdentity':
+        return [a, flatMap(unit(a), k), k(a)];
+    case 'monad.rightIdentity':
+        return [m, flatMap(m, unit), m];
+    case 'monad.associativity':
+        return [m, flatMap(flatMap(m, k), h), flatMap(m, x => flatMap(k(x), h))];
+    case 'bifunctor.identity':
+        return [m, mapError(m, x => x), m];
+    case 'bifunctor.composition':
+        return [m, mapError(mapError(m, fError), gError), mapError(m, x => gError(fError(x)))];
+    case 'bifunctor.commutativity':
+        return [m, mapError(map(m, f), fError), map(mapError(m, fError), f)];
+    }
+}
+
+/**
+ * Checks functor, monad and bifunctor laws for map, flatMap and mapError with generated inputs
+ * - Supply f, g, k, h, fError or gError to check the laws with your own functions
+ * - Supply map, flatMap or mapError to check your own implementations instead of the Either methods
+ * - Failures report the seed; pass it back in to reproduce the exact same runs
+ * @template T - Type of the success value
+ * @template E - Type of the error value
+ * @param options - Generators, functions and run settings
+ * @returns Either<LawReport, LawViolationError> - Report when every law holds, otherwise the first violation
+ * @example
+ * ```typescript
+ * const result = checkLaws({
+ *     ok: Gen.int(),
+ *     error: Gen.string(),
+ *     k: n => (n % 2 === 0 ? Either.Ok(n / 2) : Either.Error('odd')),
+ *     seed: 42
+ * });
+ * if (result.isError()) {
+ *     throw result.getError(); // message names the law and the seed
+ * }
+ * ```
+ */
+export function checkLaws<T, E>(options: LawOptions<T, E>): Either<LawReport, LawViolationError> {
+    const {
+        ok,
+        error,
+        seed = Math.floor(Math.random() * 0xffffffff),
+        runs = 100,
+        laws = ALL_LAWS,
+        eq = Either.getEq<T, E>()
+    } = options;
+    const ops: LawfulOperations<T, E> = {
+        map: options.map ?? ((either, fn) => either.map(fn)),
+        flatMap: options.flatMap ?? ((either, fn) => either.flatMap(fn)),
+        mapError: options.mapError ?? ((either, fn) => either.mapError(fn))
+    };
+    const eitherGen = Gen.either(ok, error);
+    const okFn = Gen.fn<T, T>(ok);
+    const errorFn = Gen.fn<E, E>(error);
+    const kleisli = Gen.fn<T, Either<T, E>>(eitherGen);
+
+    for (const law of laws) {
+        const random = new Random(seed);
+        for (let run = 1; run <= runs; run++) {
+            const fns: RunFunctions<T, E> = {
+                f: options.f ?? okFn.generate(random),
+                g: options.g ?? okFn.generate(random),
+                k: options.k ?? kleisli.generate(random),
+                h: options.h ?? kleisli.generate(random),
+                fError: options.fError ?? errorFn.generate(random),
+                gError: options.gError ?? errorFn.generate(random)
+            };
+            const [input, left, right] = evaluateLaw(law, eitherGen.generate(random), ok.generate(random), fns, ops);
+
+            if (!eq.equals(left, right)) {
+                return Either.Error(new LawViolationError({
+                    law,
+                    seed,
+                    run,
+                    input,
+                    left,
+                    right,
+                    message: `Law "${law}" failed on run ${run} (seed ${seed})`
+                }));
+            }
+        }
+    }
+
+    return Either.Ok({ seed, runs, laws });
+}
@@ -0,0 +1,183 @@
+import { Either } from './either';
+import { deepEqual } from './either-eq';
+
+/**
+ * Subset of the matcher context shared by Jest and Vitest
+ */
+export interface EitherMatcherContext {
+    isNot?: boolean;
+    promise?: string;
+    equals(a: unknown, b: unknown): boolean;
+    utils: {
+        matcherHint(matcherName: string, received?: string, expected?: string, options?: object): string;
+        printExpected(value: unknown): string;
+        printReceived(value: unknown): string;
+    };
+}
+
+/** Result returned by each matcher */
+export interface EitherMatcherResult {
+    pass: boolean;
+    message: () => string;
+}
+
+/** Constructor accepted by toBeErrorInstanceOf */
+type ErrorConstructorLike = abstract new (...args: never[]) => unknown;
+
+/**
+ * Pretty-prints an Either as `Ok(value)` or `Error(error)`
+ * @param ctx - Matcher context providing the printers
+ * @param either - Either to print
+ * @returns Printed Either
+ */
+function printEither(ctx: EitherMatcherContext, either: Either<unknown, unknown>): string {
+    return either.isOk()
+        ? `Ok(${ctx.utils.printReceived(either.getValue())})`
+        : `Error(${ctx.utils.printReceived(either.getError())})`;
+}
+
+/**
+ * Builds a standard failure message with hint, expectation and the actual Either
+ * @param ctx - Matcher context
+ * @param name - Matcher name
+ * @param expected - Description of the expectation
+ * @param either - Received Either
+ * @param withArg - Whether the matcher takes an expected argument
+ * @returns Lazy message function
+ */
+function failureMessage(
+    ctx: EitherMatcherContext,
+    name: string,
+    expected: string,
+    either: Either<unknown, unknown>,
+    withArg: boolean
+): () => string {
+    return () => [
+        ctx.utils.matcherHint(name, undefined, withArg ? 'expected' : '', { isNot: ctx.isNot, promise: ctx.promise }),
+        '',
+        `Expected: ${ctx.isNot ? 'not ' : ''}${expected}`,
+        `Received: ${printEither(ctx, either)}`
+    ].join('\n');
+}
+
+/**
+ * Runs a check against the received Either, awaiting it first when it is a Promise or EitherAsync
+ * @param ctx - Matcher context
+ * @param name - Matcher name, used in the type error
+ * @param received - Value passed to expect()
+ * @param check - Check to run on the Either
+ * @returns Matcher result, or a Promise of it for thenable input
+ */
+function withEither(
+    ctx: EitherMatcherContext,
+    name: string,
+    received: unknown,
+    check: (either: Either<unknown, unknown>) => EitherMatcherResult
+): EitherMatcherResult | Promise<EitherMatcherResult> {
+    if (received instanceof Either) {
+        return check(received);
+    }
+    if (received !== null && typeof (received as PromiseLike<unknown>)?.then === 'function') {
+        return Promise.resolve(received as PromiseLike<unknown>).then(value => withEither(ctx, name, value, check));
+    }
+
+    throw new Error([
+        ctx.utils.matcherHint(name, undefined, undefined, { isNot: ctx.isNot, promise: ctx.promise }),
+        '',
+        'Received value must be an Either, a Promise of an Either or an EitherAsync',
+        `Received: ${ctx.utils.printReceived(received)}`
+    ].join('\n'));
+}
+
+/**
+ * Compares an error against the expected value
+ * - Error instances match by name and message
+ * - RegExps match the message of an Error or a string error
+ * - Anything else, including asymmetric matchers, uses the runner's equality
+ * @param ctx - Matcher context
+ * @param actual - Error held by the Either
+ * @param expected - Expected error, RegExp or matcher
+ * @returns true if the error matches
+ */
+function errorMatches(ctx: EitherMatcherContext, actual: unknown, expected: unknown): boolean {
+    if (expected instanceof Error) {
+        return deepEqual(actual, expected);
+    }
+    if (expected instanceof RegExp) {
+        const text = actual instanceof Error ? actual.message : actual;
+        return typeof text === 'string' && expected.test(text);
+    }
+    return ctx.equals(actual, expected);
+}
+
+/**
+ * Custom matchers for Either assertions, for use with Jest or Vitest `expect.extend`
+ * - Each matcher accepts an Either, a Promise of an Either or an EitherAsync; thenables make the matcher async
+ * - Failure messages print the actual Either as `Ok(...)` or `Error(...)`
+ * @example
+ * ```typescript
+ * import { eitherMatchers } from '@byzobss/either-monad/matchers';
+ * expect.extend(eitherMatchers);
+ *
+ * expect(parse('42')).toBeOkWith(42);
+ * expect(parse('x')).toBeErrorInstanceOf(ParseError);
+ * await expect(fetchUser(1)).resolves.toBeOk();
+ * await expect(EitherAsync.Error(new Error('boom'))).toBeErrorWith(/boom/);
+ * ```
+ */
+export const eitherMatchers = {
+    toBeOk(this: EitherMatcherContext, received: unknown) {
+        return withEither(this, 'toBeOk', received, either => ({
+            pass: either.isOk(),
+            message: failureMessage(this, 'toBeOk', 'Ok', either, false)
+        }));
+    },
+
+    toBeOkWith(this: EitherMatcherContext, received: unknown, expected: unknown) {
+        return withEither(this, 'toBeOkWith', received, either => ({
+            pass: either.isOk() && this.equals(either.getValue(), expected),
+            message: failureMessage(this, 'toBeOkWith', `Ok(${this.utils.printExpected(expected)})`, either, true)
+        }));
+    },
+
+    toBeError(this: EitherMatcherContext, received: unknown) {
+        return withEither(this, 'toBeError', received, either => ({
+            pass: either.isError(),
+            message: failureMessage(this, 'toBeError', 'Error', either, false)
+        }));
+    },
+
+    toBeErrorWith(this: EitherMatcherContext, received: unknown, expected: unknown) {
+        return withEither(this, 'toBeErrorWith', received, either => ({
+            pass: either.isError() && errorMatches(this, either.getError(), expected),
+            message: failureMessage(this, 'toBeErrorWith', `Error(${this.utils.printExpected(expected)})`, either, true)
+        }));
+    },
+
+    toBeErrorInstanceOf(this: EitherMatcherContext, received: unknown, expected: ErrorConstructorLike) {
+        return withEither(this, 'toBeErrorInstanceOf', received, either => ({
+            pass: either.isError() && either.getError() instanceof expected,
+            message: failureMessage(this, 'toBeErrorInstanceOf', `Error(instance of ${expected.name})`, either, true)
+        }));
+    }
+};
+
+/**
+ * Either matchers as seen from `expect(...)`
+ * @template R - Return type of the runner's matchers
+ */
+export interface EitherMatchers<R = unknown> {
+    toBeOk(): R;
+    toBeOkWith(expected: unknown): R;
+    toBeError(): R;
+    toBeErrorWith(expected: unknown): R;
+    toBeErrorInstanceOf(expected: ErrorConstructorLike): R;
+}
+
+declare global {
+    // eslint-disable-next-line @typescript-eslint/no-namespace
+    namespace jest {
+        // eslint-disable-next-line @typescript-eslint/no-empty-object-type, @typescript-eslint/no-unused-vars
+        interface Matchers<R, T = {}> extends EitherMatchers<R> {}
+    }
+}
@@ -0,0 +1,187 @@
+import { Either } from './either';
+
+/**
+ * Interface for pattern matching expressions in Option fold operations
+ * @template R - Return type of both functions
+ * @template T - Value type
+ */
+interface OptionFoldExpression<R, T> {
+    /** Function to handle the empty case */
+    fnNone: () => R;
+    /** Function to handle the present value */
+    fnSome: (value: T) => R;
+}
+
+/**
+ * Option implementation representing a value that may be present (Some) or absent (None)
+ * @template T - Type of the optional value
+ */
+export class Option<T> {
+    /**
+     * Private constructor to ensure Option instances are created through static methods
+     * @param value - Present value (only for Some instances)
+     * @param _isSome - Boolean for presence state
+     */
+    private constructor(
+        private readonly value: T | undefined,
+        private readonly _isSome: boolean
+    ) { }
+
+    /** Shared empty instance returned by Option.None */
+    private static readonly NONE = new Option<never>(undefined, false);
+
+    /**
+     * Creates an Option containing a value
+     * @template T - Type of the value
+     * @param value - The value to wrap (null and undefined are kept as-is)
+     * @returns Option<T> - Some instance
+     * @example
+     * ```typescript
+     * const port = Option.Some(8080);
+     * ```
+     */
+    static Some<T>(value: T): Option<T> {
+        return new Option(value, true);
+    }
+
+    /**
+     * Returns the empty Option
+     * @returns Option<never> - None instance
+     * @example
+     * ```typescript
+     * const port: Option<number> = Option.None();
+     * ```
+     */
+    static None(): Option<never> {
+        return Option.NONE;
+    }
+
+    /**
+     * Converts a nullable value to Option
+     * @template T - Type of the value
+     * @param value - Value that might be null or undefined
+     * @returns Option<T> - Some if value exists, None if null/undefined
+     * @example
+     * ```typescript
+     * const email = Option.fromNullable(user?.email);
+     * ```
+     */
+    static fromNullable<T>(value: T | null | undefined): Option<T> {
+        return value !== null && value !== undefined
+            ? Option.Some(value)
+            : Option.None();
+    }
+
+    /**
+     * Checks if Option contains a value
+     * - Not a type guard: Some and None share the Option<T> type, so there is nothing narrower to return
+     * @returns true if Option is Some, false otherwise
+     */
+    public isSome(): boolean {
+        return this._isSome;
+    }
+
+    /**
+     * Type guard to check if Option is empty
+     * @returns true if Option is None (narrowed to Option<never>, assignable to any Option<U>), false otherwise
+     */
+    public isNone(): this is Option<never> {
+        return !this._isSome;
+    }
+
+    /**
+     * Extracts the value from Some instance
+     * @returns The wrapped value
+     * @throws Error if called on None instance
+     */
+    public getValue(): T {
+        if (!this.isSome()) {
+            throw new Error('Cannot access value in a None instance');
+        }
+
+        return this.value as T;
+    }
+
+    /**
+     * Pattern matching for Option values
+     * @template R - Return type of both handler functions
+     * @param expressions - Object containing handlers for Some and None cases
+     * @returns Result of executing the appropriate handler function
+     * @example
+     * ```typescript
+     * const greeting = Option.fromNullable(user.nickname).fold({
+     *     fnSome: (nickname) => `Hi ${nickname}`,
+     *     fnNone: () => 'Hi there'
+     * });
+     * ```
+     */
+    public fold<R>(expressions: OptionFoldExpression<R, T>): R {
+        return this.isSome()
+            ? expressions.fnSome(this.value!)
+            : expressions.fnNone();
+    }
+
+    /**
+     * Transforms the value if Some, otherwise returns None
+     * @template U - Type of the transformed value
+     * @param fn - Transformation function to apply to the value
+     * @returns Option<U> - New Option with transformed value or None
+     */
+    public map<U>(fn: (value: T) => U): Option<U> {
+        return this.isSome() ? Option.Some(fn(this.value!)) : Option.None();
+    }
+
+    /**
+     * Chains Option-returning operations
+     * @template U - Type of the new value
+     * @param fn - Function that takes the value and returns an Option
+     * @returns Option<U> - Flattened result of the operation
+     * @example
+     * ```typescript
+     * const city = Option.fromNullable(user.address).flatMap(address => Option.fromNullable(address.city));
+     * ```
+     */
+    public flatMap<U>(fn: (value: T) => Option<U>): Option<U> {
+        return this.isSome() ? fn(this.value!) : Option.None();
+    }
+
+    /**
+     * Keeps the value only if it satisfies the predicate
+     * @param predicate - Function to test the value
+     * @returns Option<T> - Original Option if predicate passes, None otherwise
+     */
+    public filter(predicate: (value: T) => boolean): Option<T> {
+        return this.isSome() && predicate(this.value!) ? this : Option.None();
+    }
+
+    /**
+     * Safely extracts value with fallback for None
+     * @param defaultValue - Value to return if Option is None
+     * @returns The wrapped value or the provided default value
+     */
+    public getOrElse(defaultValue: T): T {
+        return this.isSome() ? this.value! : defaultValue;
+    }
+
+    /**
+     * Converts Option to Either, creating the error lazily for None
+     * @template E - Type of the error
+     * @param onNone - Function that creates the error when Option is None
+     * @returns Either<T, E> - Ok with the value, or Error from onNone
+     * @example
+     * ```typescript
+     * const user = Option.fromNullable(cache.get(id)).toEither(() => new NotFoundError(`User ${id} not found`));
+     * ```
+     */
+    public toEither<E>(onNone: () => E): Either<T, E> {
+        return this.isSome() ? Either.Ok(this.value!) : Either.Error(onNone());
+    }
+
+    /**
+     * Converts Option to optional value
+     * @returns T | undefined - The value if Some, undefined if None
+     */
+    public toOptional(): T | undefined {
+        return this.isSome() ? this.value! : undefined;
+    }
+}
@@ -0,0 +1,619 @@
+import { Either } from './either';
+
+/**
+ * Passes a value through a sequence of functions, left to right
+ * - Fully typed for up to 20 functions
+ * @param value - Initial value
+ * @param fns - Functions applied in order, each receiving the previous result
+ * @returns Result of the last function (or the value itself when no functions are given)
+ * @example
+ * ```typescript
+ * const saved = pipe(
+ *     parse(input),
+ *     map(normalize),
+ *     filter(order => order.items.length > 0, new EmptyOrderError()),
+ *     flatMap(save)
+ * ); // Either<SavedOrder, ParseError | EmptyOrderError | SaveError>
+ * ```
+ */
+export function pipe<A>(value: A): A;
+export function pipe<A, B>(value: A, ab: (a: A) => B): B;
+export function pipe<A, B, C>(value: A, ab: (a: A) => B, bc: (b: B) => C): C;
+export function pipe<A, B, C, D>(value: A, ab: (a: A) => B, bc: (b: B) => C, cd: (c: C) => D): D;
+export function pipe<A, B, C, D, E>(value: A, ab: (a: A) => B, bc: (b: B) => C, cd: (c: C) => D, de: (d: D) => E): E;
+export function pipe<A, B, C, D, E, F>(
+    value: A,
+    ab: (a: A) => B,
+    bc: (b: B) => C,
+    cd: (c: C) => D,
+    de: (d: D) => E,
+    ef: (e: E) => F
+): F;
+export function pipe<A, B, C, D, E, F, G>(
+    value: A,
+    ab: (a: A) => B,
+    bc: (b: B) => C,
+    cd: (c: C) => D,
+    de: (d: D) => E,
+    ef: (e: E) => F,
+    fg: (f: F) => G
+): G;
+export function pipe<A, B, C, D, E, F, G, H>(
+    value: A,
+    ab: (a: A) => B,
+    bc: (b: B) => C,
+    cd: (c: C) => D,
+    de: (d: D) => E,
+    ef: (e: E) => F,
+    fg: (f: F) => G,
+    gh: (g: G) => H
+): H;
+export function pipe<A, B, C, D, E, F, G, H, I>(
+    value: A,
+    ab: (a: A) => B,
+    bc: (b: B) => C,
+    cd: (c: C) => D,
+    de: (d: D) => E,
+    ef: (e: E) => F,
+    fg: (f: F) => G,
+    gh: (g: G) => H,
+    hi: (h: H) => I
+): I;
+export function pipe<A, B, C, D, E, F, G, H, I, J>(
+    value: A,
+    ab: (a: A) => B,
+    bc: (b: B) => C,
+    cd: (c: C) => D,
+    de: (d: D) => E,
+    ef: (e: E) => F,
+    fg: (f: F) => G,
+    gh: (g: G) => H,
+    hi: (h: H) => I,
+    ij: (i: I) => J
+): J;
+export function pipe<A, B, C, D, E, F, G, H, I, J, K>(
+    value: A,
+    ab: (a: A) => B,
+    bc: (b: B) => C,
+    cd: (c: C) => D,
+    de: (d: D) => E,
+    ef: (e: E) => F,
+    fg: (f: F) => G,
+    gh: (g: G) => H,
+    hi: (h: H) => I,
+    ij: (i: I) => J,
+    jk: (j: J) => K
+): K;
+export function pipe<A, B, C, D, E, F, G, H, I, J, K, L>(
+    value: A,
+    ab: (a: A) => B,
+    bc: (b: B) => C,
+    cd: (c: C) => D,
+    de: (d: D) => E,
+    ef: (e: E) => F,
+    fg: (f: F) => G,
+    gh: (g: G) => H,
+    hi: (h: H) => I,
+    ij: (i: I) => J,
+    jk: (j: J) => K,
+    kl: (k: K) => L
+): L;
+export function pipe<A, B, C, D, E, F, G, H, I, J, K, L, M>(
+    value: A,
+    ab: (a: A) => B,
+    bc: (b: B) => C,
+    cd: (c: C) => D,
+    de: (d: D) => E,
+    ef: (e: E) => F,
+    fg: (f: F) => G,
+    gh: (g: G) => H,
+    hi: (h: H) => I,
+    ij: (i: I) => J,
+    jk: (j: J) => K,
+    kl: (k: K) => L,
+    lm: (l: L) => M
+): M;
+export function pipe<A, B, C, D, E, F, G, H, I, J, K, L, M, N>(
+    value: A,
+    ab: (a: A) => B,
+    bc: (b: B) => C,
+    cd: (c: C) => D,
+    de: (d: D) => E,
+    ef: (e: E) => F,
+    fg: (f: F) => G,
+    gh: (g: G) => H,
+    hi: (h: H) => I,
+    ij: (i: I) => J,
+    jk: (j: J) => K,
+    kl: (k: K) => L,
+    lm: (l: L) => M,
+    mn: (m: M) => N
+): N;
+export function pipe<A, B, C, D, E, F, G, H, I, J, K, L, M, N, O>(
+    value: A,
+    ab: (a: A) => B,
+    bc: (b: B) => C,
+    cd: (c: C) => D,
+    de: (d: D) => E,
+    ef: (e: E) => F,
+    fg: (f: F) => G,
+    gh: (g: G) => H,
+    hi: (h: H) => I,
+    ij: (i: I) => J,
+    jk: (j: J) => K,
+    kl: (k: K) => L,
+    lm: (l: L) => M,
+    mn: (m: M) => N,
+    no: (n: N) => O
+): O;
+export function pipe<A, B, C, D, E, F, G, H, I, J, K, L, M, N, O, P>(
+    value: A,
+    ab: (a: A) => B,
+    bc: (b: B) => C,
+    cd: (c: C) => D,
+    de: (d: D) => E,
+    ef: (e: E) => F,
+    fg: (f: F) => G,
+    gh: (g: G) => H,
+    hi: (h: H) => I,
+    ij: (i: I) => J,
+    jk: (j: J) => K,
+    kl: (k: K) => L,
+    lm: (l: L) => M,
+    mn: (m: M) => N,
+    no: (n: N) => O,
+    op: (o: O) => P
+): P;
+export function pipe<A, B, C, D, E, F, G, H, I, J, K, L, M, N, O, P, Q>(
+    value: A,
+    ab: (a: A) => B,
+    bc: (b: B) => C,
+    cd: (c: C) => D,
+    de: (d: D) => E,
+    ef: (e: E) => F,
+    fg: (f: F) => G,
+    gh: (g: G) => H,
+    hi: (h: H) => I,
+    ij: (i: I) => J,
+    jk: (j: J) => K,
+    kl: (k: K) => L,
+    lm: (l: L) => M,
+    mn: (m: M) => N,
+    no: (n: N) => O,
+    op: (o: O) => P,
+    pq: (p: P) => Q
+): Q;
+export function pipe<A, B, C, D, E, F, G, H, I, J, K, L, M, N, O, P, Q, R>(
+    value: A,
+    ab: (a: A) => B,
+    bc: (b: B) => C,
+    cd: (c: C) => D,
+    de: (d: D) => E,
+    ef: (e: E) => F,
+    fg: (f: F) => G,
+    gh: (g: G) => H,
+    hi: (h: H) => I,
+    ij: (i: I) => J,
+    jk: (j: J) => K,
+    kl: (k: K) => L,
+    lm: (l: L) => M,
+    mn: (m: M) => N,
+    no: (n: N) => O,
+    op: (o: O) => P,
+    pq: (p: P) => Q,
+    qr: (q: Q) => R
+): R;
+export function pipe<A, B, C, D, E, F, G, H, I, J, K, L, M, N, O, P, Q, R, S>(
+    value: A,
+    ab: (a: A) => B,
+    bc: (b: B) => C,
+    cd: (c: C) => D,
+    de: (d: D) => E,
+    ef: (e: E) => F,
+    fg: (f: F) => G,
+    gh: (g: G) => H,
+    hi: (h: H) => I,
+    ij: (i: I) => J,
+    jk: (j: J) => K,
+    kl: (k: K) => L,
+    lm: (l: L) => M,
+    mn: (m: M) => N,
+    no: (n: N) => O,
+    op: (o: O) => P,
+    pq: (p: P) => Q,
+    qr: (q: Q) => R,
+    rs: (r: R) => S
+): S;
+export function pipe<A, B, C, D, E, F, G, H, I, J, K, L, M, N, O, P, Q, R, S, T>(
+    value: A,
+    ab: (a: A) => B,
+    bc: (b: B) => C,
+    cd: (c: C) => D,
+    de: (d: D) => E,
+    ef: (e: E) => F,
+    fg: (f: F) => G,
+    gh: (g: G) => H,
+    hi: (h: H) => I,
+    ij: (i: I) => J,
+    jk: (j: J) => K,
+    kl: (k: K) => L,
+    lm: (l: L) => M,
+    mn: (m: M) => N,
+    no: (n: N) => O,
+    op: (o: O) => P,
+    pq: (p: P) => Q,
+    qr: (q: Q) => R,
+    rs: (r: R) => S,
+    st: (s: S) => T
+): T;
+export function pipe<A, B, C, D, E, F, G, H, I, J, K, L, M, N, O, P, Q, R, S, T, U>(
+    value: A,
+    ab: (a: A) => B,
+    bc: (b: B) => C,
+    cd: (c: C) => D,
+    de: (d: D) => E,
+    ef: (e: E) => F,
+    fg: (f: F) => G,
+    gh: (g: G) => H,
+    hi: (h: H) => I,
+    ij: (i: I) => J,
+    jk: (j: J) => K,
+    kl: (k: K) => L,
+    lm: (l: L) => M,
+    mn: (m: M) => N,
+    no: (n: N) => O,
+    op: (o: O) => P,
+    pq: (p: P) => Q,
+    qr: (q: Q) => R,
+    rs: (r: R) => S,
+    st: (s: S) => T,
+    tu: (t: T) => U
+): U;
+export function pipe(value: unknown, ...fns: Array<(value: unknown) => unknown>): unknown {
+    return fns.reduce((acc, fn) => fn(acc), value);
+}
+
+/**
+ * Composes functions left to right into a single reusable function
+ * - The first function may take any parameters; the rest take one argument
+ * - Fully typed for up to 20 functions
+ * @param fns - Functions applied in order, each receiving the previous result
+ * @returns Function with the parameters of the first function and the result of the last
+ * @example
+ * ```typescript
+ * const handleOrder = flow(parse, map(normalize), flatMap(save), mapError(toHttpError));
+ * const response = handleOrder(request.body); // Either<SavedOrder, HttpError>
+ * ```
+ */
+export function flow<Args extends unknown[], A>(a: (...args: Args) => A): (...args: Args) => A;
+export function flow<Args extends unknown[], A, B>(a: (...args: Args) => A, ab: (a: A) => B): (...args: Args) => B;
+export function flow<Args extends unknown[], A, B, C>(
+    a: (...args: Args) => A,
+    ab: (a: A) => B,
+    bc: (b: B) => C
+): (...args: Args) => C;
+export function flow<Args extends unknown[], A, B, C, D>(
+    a: (...args: Args) => A,
+    ab: (a: A) => B,
+    bc: (b: B) => C,
+    cd: (c: C) => D
+): (...args: Args) => D;
+export function flow<Args extends unknown[], A, B, C, D, E>(
+    a: (...args: Args) => A,
+    ab: (a: A) => B,
+    bc: (b: B) => C,
+    cd: (c: C) => D,
+    de: (d: D) => E
+): (...args: Args) => E;
+export function flow<Args extends unknown[], A, B, C, D, E, F>(
+    a: (...args: Args) => A,
+    ab: (a: A) => B,
+    bc: (b: B) => C,
+    cd: (c: C) => D,
+    de: (d: D) => E,
+    ef: (e: E) => F
+): (...args: Args) => F;
+export function flow<Args extends unknown[], A, B, C, D, E, F, G>(
+    a: (...args: Args) => A,
+    ab: (a: A) => B,
+    bc: (b: B) => C,
+    cd: (c: C) => D,
+    de: (d: D) => E,
+    ef: (e: E) => F,
+    fg: (f: F) => G
+): (...args: Args) => G;
+export function flow<Args extends unknown[], A, B, C, D, E, F, G, H>(
+    a: (...args: Args) => A,
+    ab: (a: A) => B,
+    bc: (b: B) => C,
+    cd: (c: C) => D,
+    de: (d: D) => E,
+    ef: (e: E) => F,
+    fg: (f: F) => G,
+    gh: (g: G) => H
+): (...args: Args) => H;
+export function flow<Args extends unknown[], A, B, C, D, E, F, G, H, I>(
+    a: (...args: Args) => A,
+    ab: (a: A) => B,
+    bc: (b: B) => C,
+    cd: (c: C) => D,
+    de: (d: D) => E,
+    ef: (e: E) => F,
+    fg: (f: F) => G,
+    gh: (g: G) => H,
+    hi: (h: H) => I
+): (...args: Args) => I;
+export function flow<Args extends unknown[], A, B, C, D, E, F, G, H, I, J>(
+    a: (...args: Args) => A,
+    ab: (a: A) => B,
+    bc: (b: B) => C,
+    cd: (c: C) => D,
+    de: (d: D) => E,
+    ef: (e: E) => F,
+    fg: (f: F) => G,
+    gh: (g: G) => H,
+    hi: (h: H) => I,
+    ij: (i: I) => J
+): (...args: Args) => J;
+export function flow<Args extends unknown[], A, B, C, D, E, F, G, H, I, J, K>(
+    a: (...args: Args) => A,
+    ab: (a: A) => B,
+    bc: (b: B) => C,
+    cd: (c: C) => D,
+    de: (d: D) => E,
+    ef: (e: E) => F,
+    fg: (f: F) => G,
+    gh: (g: G) => H,
+    hi: (h: H) => I,
+    ij: (i: I) => J,
+    jk: (j: J) => K
+): (...args: Args) => K;
+export function flow<Args extends unknown[], A, B, C, D, E, F, G, H, I, J, K, L>(
+    a: (...args: Args) => A,
+    ab: (a: A) => B,
+    bc: (b: B) => C,
+    cd: (c: C) => D,
+    de: (d: D) => E,
+    ef: (e: E) => F,
+    fg: (f: F) => G,
+    gh: (g: G) => H,
+    hi: (h: H) => I,
+    ij: (i: I) => J,
+    jk: (j: J) => K,
+    kl: (k: K) => L
+): (...args: Args) => L;
+export function flow<Args extends unknown[], A, B, C, D, E, F, G, H, I, J, K, L, M>(
+    a: (...args: Args) => A,
+    ab: (a: A) => B,
+    bc: (b: B) => C,
+    cd: (c: C) => D,
+    de: (d: D) => E,
+    ef: (e: E) => F,
+    fg: (f: F) => G,
+    gh: (g: G) => H,
+    hi: (h: H) => I,
+    ij: (i: I) => J,
+    jk: (j: J) => K,
+    kl: (k: K) => L,
+    lm: (l: L) => M
+): (...args: Args) => M;
+export function flow<Args extends unknown[], A, B, C, D, E, F, G, H, I, J, K, L, M, N>(
+    a: (...args: Args) => A,
+    ab: (a: A) => B,
+    bc: (b: B) => C,
+    cd: (c: C) => D,
+    de: (d: D) => E,
+    ef: (e: E) => F,
+    fg: (f: F) => G,
+    gh: (g: G) => H,
+    hi: (h: H) => I,
+    ij: (i: I) => J,
+    jk: (j: J) => K,
+    kl: (k: K) => L,
+    lm: (l: L) => M,
+    mn: (m: M) => N
+): (...args: Args) => N;
+export function flow<Args extends unknown[], A, B, C, D, E, F, G, H, I, J, K, L, M, N, O>(
+    a: (...args: Args) => A,
+    ab: (a: A) => B,
+    bc: (b: B) => C,
+    cd: (c: C) => D,
+    de: (d: D) => E,
+    ef: (e: E) => F,
+    fg: (f: F) => G,
+    gh: (g: G) => H,
+    hi: (h: H) => I,
+    ij: (i: I) => J,
+    jk: (j: J) => K,
+    kl: (k: K) => L,
+    lm: (l: L) => M,
+    mn: (m: M) => N,
+    no: (n: N) => O
+): (...args: Args) => O;
+export function flow<Args extends unknown[], A, B, C, D, E, F, G, H, I, J, K, L, M, N, O, P>(
+    a: (...args: Args) => A,
+    ab: (a: A) => B,
+    bc: (b: B) => C,
+    cd: (c: C) => D,
+    de: (d: D) => E,
+    ef: (e: E) => F,
+    fg: (f: F) => G,
+    gh: (g: G) => H,
+    hi: (h: H) => I,
+    ij: (i: I) => J,
+    jk: (j: J) => K,
+    kl: (k: K) => L,
+    lm: (l: L) => M,
+    mn: (m: M) => N,
+    no: (n: N) => O,
+    op: (o: O) => P
+): (...args: Args) => P;
+export function flow<Args extends unknown[], A, B, C, D, E, F, G, H, I, J, K, L, M, N, O, P, Q>(
+    a: (...args: Args) => A,
+    ab: (a: A) => B,
+    bc: (b: B) => C,
+    cd: (c: C) => D,
+    de: (d: D) => E,
+    ef: (e: E) => F,
+    fg: (f: F) => G,
+    gh: (g: G) => H,
+    hi: (h: H) => I,
+    ij: (i: I) => J,
+    jk: (j: J) => K,
+    kl: (k: K) => L,
+    lm: (l: L) => M,
+    mn: (m: M) => N,
+    no: (n: N) => O,
+    op: (o: O) => P,
+    pq: (p: P) => Q
+): (...args: Args) => Q;
+export function flow<Args extends unknown[], A, B, C, D, E, F, G, H, I, J, K, L, M, N, O, P, Q, R>(
+    a: (...args: Args) => A,
+    ab: (a: A) => B,
+    bc: (b: B) => C,
+    cd: (c: C) => D,
+    de: (d: D) => E,
+    ef: (e: E) => F,
+    fg: (f: F) => G,
+    gh: (g: G) => H,
+    hi: (h: H) => I,
+    ij: (i: I) => J,
+    jk: (j: J) => K,
+    kl: (k: K) => L,
+    lm: (l: L) => M,
+    mn: (m: M) => N,
+    no: (n: N) => O,
+    op: (o: O) => P,
+    pq: (p: P) => Q,
+    qr: (q: Q) => R
+): (...args: Args) => R;
+export function flow<Args extends unknown[], A, B, C, D, E, F, G, H, I, J, K, L, M, N, O, P, Q, R, S>(
+    a: (...args: Args) => A,
+    ab: (a: A) => B,
+    bc: (b: B) => C,
+    cd: (c: C) => D,
+    de: (d: D) => E,
+    ef: (e: E) => F,
+    fg: (f: F) => G,
+    gh: (g: G) => H,
+    hi: (h: H) => I,
+    ij: (i: I) => J,
+    jk: (j: J) => K,
+    kl: (k: K) => L,
+    lm: (l: L) => M,
+    mn: (m: M) => N,
+    no: (n: N) => O,
+    op: (o: O) => P,
+    pq: (p: P) => Q,
+    qr: (q: Q) => R,
+    rs: (r: R) => S
+): (...args: Args) => S;
+export function flow<Args extends unknown[], A, B, C, D, E, F, G, H, I, J, K, L, M, N, O, P, Q, R, S, T>(
+    a: (...args: Args) => A,
+    ab: (a: A) => B,
+    bc: (b: B) => C,
+    cd: (c: C) => D,
+    de: (d: D) => E,
+    ef: (e: E) => F,
+    fg: (f: F) => G,
+    gh: (g: G) => H,
+    hi: (h: H) => I,
+    ij: (i: I) => J,
+    jk: (j: J) => K,
+    kl: (k: K) => L,
+    lm: (l: L) => M,
+    mn: (m: M) => N,
+    no: (n: N) => O,
+    op: (o: O) => P,
+    pq: (p: P) => Q,
+    qr: (q: Q) => R,
+    rs: (r: R) => S,
+    st: (s: S) => T
+): (...args: Args) => T;
+export function flow(
+    first: (...args: unknown[]) => unknown,
+    ...rest: Array<(value: unknown) => unknown>
+): (...args: unknown[]) => unknown {
+    return function (this: unknown, ...args: unknown[]) {
+        return rest.reduce((acc, fn) => fn(acc), first.apply(this, args));
+    };
+}
+
+/**
+ * Pointfree version of Either#map
+ * @template T - Type of the input success value
+ * @template U - Type of the output success value
+ * @param fn - Function to transform the success value
+ * @returns Function applying map to an Either
+ */
+export function map<T, U>(fn: (value: T) => U): <E>(either: Either<T, E>) => Either<U, E> {
+    return either => either.map(fn);
+}
+
+/**
+ * Pointfree version of Either#flatMap - the error types of both steps are combined
+ * @template T - Type of the input success value
+ * @template U - Type of the output success value
+ * @template F - Error type introduced by fn
+ * @param fn - Function that takes the success value and returns an Either
+ * @returns Function applying flatMap to an Either
+ */
+export function flatMap<T, U, F>(fn: (value: T) => Either<U, F>): <E>(either: Either<T, E>) => Either<U, E | F> {
+    return <E>(either: Either<T, E>) => (either as Either<T, E | F>).flatMap(fn);
+}
+
+/**
+ * Pointfree version of Either#mapError
+ * @template E - Type of the input error
+ * @template F - Type of the output error
+ * @param fn - Function to transform the error value
+ * @returns Function applying mapError to an Either
+ */
+export function mapError<E, F>(fn: (error: E) => F): <T>(either: Either<T, E>) => Either<T, F> {
+    return either => either.mapError(fn);
+}
+
+/**
+ * Pointfree version of Either#filter - the given error is added to the error type
+ * @template T - Type of the success value
+ * @template F - Type of the error returned when the predicate fails
+ * @param predicate - Function to test the success value
+ * @param error - Error to return if the predicate fails or the Either is already Error
+ * @returns Function applying filter to an Either
+ */
+export function filter<T, F>(predicate: (value: T) => boolean, error: F): <E>(either: Either<T, E>) => Either<T, E | F> {
+    return <E>(either: Either<T, E>) => (either as Either<T, E | F>).filter(predicate, error);
+}
+
+/**
+ * Pointfree version of Either#tap
+ * @template T - Type of the success value
+ * @param fn - Side effect function to execute on the success value
+ * @returns Function applying tap to an Either
+ */
+export function tap<T>(fn: (value: T) => void): <E>(either: Either<T, E>) => Either<T, E> {
+    return either => either.tap(fn);
+}
+
+/**
+ * Pointfree version of Either#recover - the recovered value may have a different type
+ * @template E - Type of the error
+ * @template U - Type of the recovered value
+ * @param fn - Function to convert the error to a success value
+ * @returns Function applying recover to an Either
+ */
+export function recover<E, U>(fn: (error: E) => U): <T>(either: Either<T, E>) => Either<T | U, never> {
+    return <T>(either: Either<T, E>) => (either as Either<T | U, E>).recover(fn);
+}
+
+/**
+ * Pointfree version of Either#fold
+ * @template T - Type of the success value
+ * @template E - Type of the error
+ * @template R - Return type of both handlers
+ * @param expressions - Object containing handlers for Ok and Error cases
+ * @returns Function applying fold to an Either
+ */
+export function fold<T, E, R>(expressions: { fnError: (error: E) => R; fnOk: (value: T) => R }): (either: Either<T, E>) => R {
+    return either => either.fold(expressions);
+}
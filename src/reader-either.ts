@@ -0,0 +1,347 @@
+import { Either } from './either';
+import { EitherAsync } from './either-async';
+import type { EitherLike } from './either-async';
+
+/**
+ * Arguments of run - the environment may be omitted once nothing is required
+ * @template R - Required environment
+ */
+type RunArgs<R> = object extends R ? [env?: R] : [env: R];
+
+/**
+ * Environment left to supply after providing part of it
+ * @template R - Required environment
+ * @template P - Provided part
+ */
+export type Remaining<R, P> = Omit<R, keyof P>;
+
+/**
+ * Computation that needs an environment R (repositories, loggers, clients...) and produces Either<T, E>
+ * - Environments of composed steps are intersected, so the final type lists every dependency
+ * @template R - Required environment
+ * @template T - Type of the success value
+ * @template E - Type of the error value
+ */
+export class ReaderEither<R, T, E> {
+    /**
+     * Private constructor to ensure instances are created through static methods
+     * @param fn - Function from the environment to the result
+     */
+    private constructor(private readonly fn: (env: R) => Either<T, E>) { }
+
+    /**
+     * Creates a ReaderEither that ignores the environment and succeeds
+     * @template T - Type of the success value
+     * @param value - Success value
+     * @returns ReaderEither<unknown, T, never> - Succeeds with value in any environment
+     */
+    static Ok<T>(value: T): ReaderEither<unknown, T, never> {
+        return new ReaderEither(() => Either.Ok(value));
+    }
+
+    /**
+     * Creates a ReaderEither that ignores the environment and fails
+     * @template E - Type of the error value
+     * @param error - Error value
+     * @returns ReaderEither<unknown, never, E> - Fails with error in any environment
+     */
+    static Error<E>(error: E): ReaderEither<unknown, never, E> {
+        return new ReaderEither(() => Either.Error(error));
+    }
+
+    /**
+     * Creates a ReaderEither from a function of the environment
+     * @template R - Required environment
+     * @template T - Type of the success value
+     * @template E - Type of the error value
+     * @param fn - Function from the environment to an Either
+     * @returns ReaderEither<R, T, E> - Wrapped computation
+     * @example
+     * ```typescript
+     * const findUser = (id: string) =>
+     *     ReaderEither.from(({ users }: { users: UserRepo }) => users.find(id));
+     * ```
+     */
+    static from<R, T, E>(fn: (env: R) => Either<T, E>): ReaderEither<R, T, E> {
+        return new ReaderEither(fn);
+    }
+
+    /**
+     * Lifts a plain Either
+     * @template T - Type of the success value
+     * @template E - Type of the error value
+     * @param either - Either to lift
+     * @returns ReaderEither<unknown, T, E> - Returns either in any environment
+     */
+    static fromEither<T, E>(either: Either<T, E>): ReaderEither<unknown, T, E> {
+        return new ReaderEither(() => either);
+    }
+
+    /**
+     * Reads the whole environment
+     * @template R - Required environment
+     * @returns ReaderEither<R, R, never> - Succeeds with the environment
+     */
+    static ask<R>(): ReaderEither<R, R, never> {
+        return new ReaderEither((env: R) => Either.Ok(env));
+    }
+
+    /**
+     * Reads a value derived from the environment
+     * @template R - Required environment
+     * @template T - Type of the derived value
+     * @param fn - Selector applied to the environment
+     * @returns ReaderEither<R, T, never> - Succeeds with the selected value
+     * @example
+     * ```typescript
+     * const logger = ReaderEither.asks(({ logger }: { logger: Logger }) => logger);
+     * ```
+     */
+    static asks<R, T>(fn: (env: R) => T): ReaderEither<R, T, never> {
+        return new ReaderEither((env: R) => Either.Ok(fn(env)));
+    }
+
+    /**
+     * Transforms the success value
+     * @template U - Type of the new success value
+     * @param fn - Function to transform the success value
+     * @returns ReaderEither<R, U, E> - Transformed computation
+     */
+    public map<U>(fn: (value: T) => U): ReaderEither<R, U, E> {
+        return new ReaderEither(env => this.fn(env).map(fn));
+    }
+
+    /**
+     * Chains a computation that may need more of the environment
+     * @template R2 - Environment required by the next step
+     * @template U - Type of the new success value
+     * @template F - Error type introduced by the next step
+     * @param fn - Function returning a ReaderEither or a plain Either
+     * @returns ReaderEither<R & R2, U, E | F> - Computation requiring both environments
+     * @example
+     * ```typescript
+     * const register = (input: NewUser) =>
+     *     validate(input)                                  // ReaderEither<unknown, NewUser, ValidationError>
+     *         .flatMap(user => saveUser(user))            // needs { users: UserRepo }
+     *         .flatMap(user => sendWelcome(user.email));  // needs { mailer: Mailer }
+     * // ReaderEither<{ users: UserRepo } & { mailer: Mailer }, Receipt, ValidationError | DbError | MailError>
+     * ```
+     */
+    public flatMap<R2, U, F>(fn: (value: T) => ReaderEither<R2, U, F> | Either<U, F>): ReaderEither<R & R2, U, E | F> {
+        return new ReaderEither((env: R & R2): Either<U, E | F> => {
+            const result = this.fn(env);
+            if (result.isError()) {
+                return result;
+            }
+
+            const next = fn(result.getValue());
+            return next instanceof ReaderEither ? next.fn(env) : next;
+        });
+    }
+
+    /**
+     * Transforms the error value
+     * @template F - Type of the new error value
+     * @param fn - Function to transform the error value
+     * @returns ReaderEither<R, T, F> - Computation with transformed errors
+     */
+    public mapError<F>(fn: (error: E) => F): ReaderEither<R, T, F> {
+        return new ReaderEither(env => this.fn(env).mapError(fn));
+    }
+
+    /**
+     * Runs the computation in a modified environment
+     * @template R2 - Environment supplied by the caller
+     * @param fn - Function building this computation's environment from the caller's
+     * @returns ReaderEither<R2, T, E> - Computation requiring R2 instead of R
+     * @example
+     * ```typescript
+     * const scoped = loadOrders.local((env: AppEnv) => ({ ...env, logger: env.logger.child({ module: 'orders' }) }));
+     * ```
+     */
+    public local<R2>(fn: (env: R2) => R): ReaderEither<R2, T, E> {
+        return new ReaderEither((env: R2) => this.fn(fn(env)));
+    }
+
+    /**
+     * Supplies part (or all) of the environment up front
+     * @template P - Provided part of the environment
+     * @param deps - Dependencies to provide
+     * @returns ReaderEither<Remaining<R, P>, T, E> - Computation requiring only what is left
+     * @example
+     * ```typescript
+     * const withFakes = register(input).provide({ users: new InMemoryUserRepo() });
+     * withFakes.run({ mailer: fakeMailer });
+     * ```
+     */
+    public provide<P extends Partial<R>>(deps: P): ReaderEither<Remaining<R, P>, T, E> {
+        return new ReaderEither((env: Remaining<R, P>) => this.fn({ ...env, ...deps } as R));
+    }
+
+    /**
+     * Runs the computation, producing a plain Either
+     * @param env - Environment, optional once nothing is required
+     * @returns Either<T, E> - Result of the computation
+     */
+    public run(...[env]: RunArgs<R>): Either<T, E> {
+        return this.fn(env as R);
+    }
+
+    /**
+     * Converts to the async variant
+     * @returns ReaderEitherAsync<R, T, E> - Async computation with the same environment
+     */
+    public toAsync(): ReaderEitherAsync<R, T, E> {
+        return ReaderEitherAsync.from(env => this.fn(env));
+    }
+}
+
+/**
+ * Async computation that needs an environment R and produces Either<T, E>
+ * - Environments of composed steps are intersected, so the final type lists every dependency
+ * @template R - Required environment
+ * @template T - Type of the success value
+ * @template E - Type of the error value
+ */
+export class ReaderEitherAsync<R, T, E> {
+    /**
+     * Private constructor to ensure instances are created through static methods
+     * @param fn - Function from the environment to the result
+     */
+    private constructor(private readonly fn: (env: R) => EitherAsync<T, E>) { }
+
+    /**
+     * Creates a ReaderEitherAsync that ignores the environment and succeeds
+     * @template T - Type of the success value
+     * @param value - Success value
+     * @returns ReaderEitherAsync<unknown, T, never> - Succeeds with value in any environment
+     */
+    static Ok<T>(value: T): ReaderEitherAsync<unknown, T, never> {
+        return new ReaderEitherAsync(() => EitherAsync.Ok(value));
+    }
+
+    /**
+     * Creates a ReaderEitherAsync that ignores the environment and fails
+     * @template E - Type of the error value
+     * @param error - Error value
+     * @returns ReaderEitherAsync<unknown, never, E> - Fails with error in any environment
+     */
+    static Error<E>(error: E): ReaderEitherAsync<unknown, never, E> {
+        return new ReaderEitherAsync(() => EitherAsync.Error(error));
+    }
+
+    /**
+     * Creates a ReaderEitherAsync from a function of the environment
+     * @template R - Required environment
+     * @template T - Type of the success value
+     * @template E - Type of the error value
+     * @param fn - Function from the environment to an Either, Promise of Either or EitherAsync
+     * @returns ReaderEitherAsync<R, T, E> - Wrapped computation
+     * @example
+     * ```typescript
+     * const fetchUser = (id: string) =>
+     *     ReaderEitherAsync.from(({ api }: { api: ApiClient }) =>
+     *         safeAsync({ fn: () => api.getUser(id), ErrClass: ApiError }));
+     * ```
+     */
+    static from<R, T, E>(fn: (env: R) => EitherLike<T, E>): ReaderEitherAsync<R, T, E> {
+        return new ReaderEitherAsync((env: R) => EitherAsync.from(fn(env)));
+    }
+
+    /**
+     * Lifts an Either, Promise of Either or EitherAsync
+     * @template T - Type of the success value
+     * @template E - Type of the error value
+     * @param either - Value to lift
+     * @returns ReaderEitherAsync<unknown, T, E> - Returns either in any environment
+     */
+    static fromEither<T, E>(either: EitherLike<T, E>): ReaderEitherAsync<unknown, T, E> {
+        return new ReaderEitherAsync(() => EitherAsync.from(either));
+    }
+
+    /**
+     * Reads the whole environment
+     * @template R - Required environment
+     * @returns ReaderEitherAsync<R, R, never> - Succeeds with the environment
+     */
+    static ask<R>(): ReaderEitherAsync<R, R, never> {
+        return new ReaderEitherAsync((env: R) => EitherAsync.Ok(env));
+    }
+
+    /**
+     * Reads a value derived from the environment
+     * @template R - Required environment
+     * @template T - Type of the derived value
+     * @param fn - Selector applied to the environment
+     * @returns ReaderEitherAsync<R, T, never> - Succeeds with the selected value
+     */
+    static asks<R, T>(fn: (env: R) => T): ReaderEitherAsync<R, T, never> {
+        return new ReaderEitherAsync((env: R) => EitherAsync.Ok(fn(env)));
+    }
+
+    /**
+     * Transforms the success value (sync or async)
+     * @template U - Type of the new success value
+     * @param fn - Function to transform the success value
+     * @returns ReaderEitherAsync<R, U, E> - Transformed computation
+     */
+    public map<U>(fn: (value: T) => U | PromiseLike<U>): ReaderEitherAsync<R, U, E> {
+        return new ReaderEitherAsync(env => this.fn(env).map(fn));
+    }
+
+    /**
+     * Chains a computation that may need more of the environment
+     * @template R2 - Environment required by the next step
+     * @template U - Type of the new success value
+     * @template F - Error type introduced by the next step
+     * @param fn - Function returning a ReaderEitherAsync, ReaderEither, Either, Promise of Either or EitherAsync
+     * @returns ReaderEitherAsync<R & R2, U, E | F> - Computation requiring both environments
+     */
+    public flatMap<R2, U, F>(
+        fn: (value: T) => ReaderEitherAsync<R2, U, F> | ReaderEither<R2, U, F> | EitherLike<U, F>
+    ): ReaderEitherAsync<R & R2, U, E | F> {
+        return new ReaderEitherAsync((env: R & R2) => this.fn(env).flatMap(value => {
+            const next = fn(value);
+            return next instanceof ReaderEitherAsync || next instanceof ReaderEither ? next.run(env) : next;
+        }));
+    }
+
+    /**
+     * Transforms the error value (sync or async)
+     * @template F - Type of the new error value
+     * @param fn - Function to transform the error value
+     * @returns ReaderEitherAsync<R, T, F> - Computation with transformed errors
+     */
+    public mapError<F>(fn: (error: E) => F | PromiseLike<F>): ReaderEitherAsync<R, T, F> {
+        return new ReaderEitherAsync(env => this.fn(env).mapError(fn));
+    }
+
+    /**
+     * Runs the computation in a modified environment
+     * @template R2 - Environment supplied by the caller
+     * @param fn - Function building this computation's environment from the caller's
+     * @returns ReaderEitherAsync<R2, T, E> - Computation requiring R2 instead of R
+     */
+    public local<R2>(fn: (env: R2) => R): ReaderEitherAsync<R2, T, E> {
+        return new ReaderEitherAsync((env: R2) => this.fn(fn(env)));
+    }
+
+    /**
+     * Supplies part (or all) of the environment up front
+     * @template P - Provided part of the environment
+     * @param deps - Dependencies to provide
+     * @returns ReaderEitherAsync<Remaining<R, P>, T, E> - Computation requiring only what is left
+     */
+    public provide<P extends Partial<R>>(deps: P): ReaderEitherAsync<Remaining<R, P>, T, E> {
+        return new ReaderEitherAsync((env: Remaining<R, P>) => this.fn({ ...env, ...deps } as R));
+    }
+
+    /**
+     * Runs the computation
+     * @param env - Environment, optional once nothing is required
+     * @returns EitherAsync<T, E> - Awaits to a plain Either
+     */
+    public run(...[env]: RunArgs<R>): EitherAsync<T, E> {
+        return this.fn(env as R);
+    }
+}
@@ -0,0 +1,243 @@
+import { Either } from './either';
+import { TaggedError } from './tagged-error';
+
+/**
+ * Source of time used by retry and polling helpers - inject a fake one in tests
+ */
+export interface Scheduler {
+    /** Current time in milliseconds */
+    now(): number;
+    /** Resolves after the given number of milliseconds */
+    sleep(ms: number): Promise<void>;
+}
+
+/** Scheduler backed by Date.now and setTimeout */
+export const realScheduler: Scheduler = {
+    now: () => Date.now(),
+    sleep: ms => new Promise(resolve => setTimeout(resolve, ms))
+};
+
+/**
+ * Options shared by retry and pollUntil
+ * @template E - Type of the operation error
+ */
+export interface RetryOptions<E> {
+    /** Policy deciding delays and when to give up */
+    policy: RetryPolicy<E>;
+    /** Time source, defaults to realScheduler */
+    scheduler?: Scheduler;
+}
+
+/**
+ * Error returned when every attempt failed, carrying each attempt's error in order
+ * @template E - Type of each attempt's error
+ */
+export class RetryError<E> extends TaggedError('RetryError')<{ errors: unknown[] }> {
+    declare readonly errors: E[];
+}
+
+/** Error recorded for polling attempts whose value did not satisfy the predicate */
+export class ConditionNotMetError extends TaggedError('ConditionNotMet')<{ value: unknown }> {}
+
+/** Internal settings of a RetryPolicy */
+interface RetryPolicySettings<E> {
+    delay: (attempt: number) => number;
+    maxAttempts: number;
+    maxElapsedMs: number;
+    jitter: number;
+    random: () => number;
+    shouldRetry: (error: E, attempt: number) => boolean;
+}
+
+/**
+ * Immutable, composable description of how to retry a failing operation
+ * @template E - Type of the errors the retryIf predicate inspects
+ * @example
+ * ```typescript
+ * const policy = RetryPolicy.exponential(100)
+ *     .withJitter()
+ *     .maxAttempts(5)
+ *     .maxElapsed(10_000)
+ *     .retryIf((error: ApiError) => error.status >= 500);
+ * ```
+ */
+export class RetryPolicy<E = unknown> {
+    /**
+     * Private constructor to ensure policies are created through static methods
+     * @param settings - Policy settings
+     */
+    private constructor(private readonly settings: RetryPolicySettings<E>) { }
+
+    /**
+     * Creates a policy from a delay function with the default limit of 3 attempts
+     * @param delay - Delay in milliseconds before the attempt following the given one
+     * @returns RetryPolicy - New policy
+     */
+    private static fromDelay<E>(delay: (attempt: number) => number): RetryPolicy<E> {
+        return new RetryPolicy<E>({
+            delay,
+            maxAttempts: 3,
+            maxElapsedMs: Infinity,
+            jitter: 0,
+            random: Math.random,
+            shouldRetry: () => true
+        });
+    }
+
+    /**
+     * Waits the same delay between every attempt
+     * @template E - Type of the errors inspected by retryIf
+     * @param ms - Delay in milliseconds
+     * @returns RetryPolicy<E> - Policy limited to 3 attempts until maxAttempts/maxElapsed is set
+     */
+    static fixed<E = unknown>(ms: number): RetryPolicy<E> {
+        return RetryPolicy.fromDelay(() => ms);
+    }
+
+    /**
+     * Multiplies the delay after every attempt
+     * @template E - Type of the errors inspected by retryIf
+     * @param baseMs - Delay before the second attempt
+     * @param options - Growth factor (default 2) and upper bound for a single delay
+     * @returns RetryPolicy<E> - Policy limited to 3 attempts until maxAttempts/maxElapsed is set
+     */
+    static exponential<E = unknown>(
+        baseMs: number,
+        { factor = 2, maxDelayMs = Infinity }: { factor?: number; maxDelayMs?: number } = {}
+    ): RetryPolicy<E> {
+        return RetryPolicy.fromDelay(attempt => Math.min(baseMs * factor ** (attempt - 1), maxDelayMs));
+    }
+
+    /**
+     * Randomly shortens each delay to spread out concurrent retries
+     * @param ratio - Maximum fraction of the delay to remove, from 0 (none) to 1 (full jitter)
+     * @param random - Random source returning values in [0, 1), injectable for tests
+     * @returns RetryPolicy<E> - New policy with jitter
+     */
+    public withJitter(ratio = 1, random: () => number = Math.random): RetryPolicy<E> {
+        return new RetryPolicy({ ...this.settings, jitter: ratio, random });
+    }
+
+    /**
+     * Limits the total number of attempts, including the first one
+     * @param attempts - Maximum number of attempts
+     * @returns RetryPolicy<E> - New policy with the limit
+     */
+    public maxAttempts(attempts: number): RetryPolicy<E> {
+        return new RetryPolicy({ ...this.settings, maxAttempts: attempts });
+    }
+
+    /**
+     * Gives up when the next attempt would start after the given time since the first one
+     * @param ms - Maximum elapsed time in milliseconds
+     * @returns RetryPolicy<E> - New policy with the limit
+     */
+    public maxElapsed(ms: number): RetryPolicy<E> {
+        return new RetryPolicy({ ...this.settings, maxElapsedMs: ms });
+    }
+
+    /**
+     * Only retries errors accepted by the predicate - other errors stop immediately
+     * @template F - Type of the errors inspected by the predicate
+     * @param predicate - Function deciding whether an error is worth retrying
+     * @returns RetryPolicy<F> - New policy with the predicate
+     */
+    public retryIf<F extends E>(predicate: (error: F, attempt: number) => boolean): RetryPolicy<F> {
+        return new RetryPolicy<F>({ ...this.settings, shouldRetry: predicate });
+    }
+
+    /**
+     * Computes the delay before the attempt following the given one
+     * @param attempt - Number of the attempt that just failed, starting at 1
+     * @param error - Error of that attempt
+     * @param elapsedMs - Time since the first attempt started
+     * @returns Delay in milliseconds, or undefined when the policy gives up
+     */
+    public nextDelay(attempt: number, error: E, elapsedMs: number): number | undefined {
+        const { delay, maxAttempts, maxElapsedMs, jitter, random, shouldRetry } = this.settings;
+        if (attempt >= maxAttempts || !shouldRetry(error, attempt)) {
+            return undefined;
+        }
+
+        const ms = delay(attempt) * (1 - jitter * random());
+        return elapsedMs + ms > maxElapsedMs ? undefined : ms;
+    }
+}
+
+/**
+ * Runs an Either-returning operation, retrying failures according to the policy
+ * @template T - Type of the success value
+ * @template E - Type of each attempt's error
+ * @param fn - Operation to run, e.g. a safeAsync call - receives the attempt number starting at 1
+ * @param options - Retry policy and optional scheduler
+ * @returns Promise<Either<T, RetryError<E>>> - First success, or every attempt's error
+ * @example
+ * ```typescript
+ * const result = await retry(
+ *     () => safeAsync({ fn: () => api.getUser(id), ErrClass: ApiError }),
+ *     { policy: RetryPolicy.exponential(200).withJitter().maxAttempts(4) }
+ * );
+ * ```
+ */
+export async function retry<T, E>(
+    fn: (attempt: number) => Either<T, E> | PromiseLike<Either<T, E>>,
+    { policy, scheduler = realScheduler }: RetryOptions<E>
+): Promise<Either<T, RetryError<E>>> {
+    const start = scheduler.now();
+    const errors: E[] = [];
+
+    for (let attempt = 1; ; attempt++) {
+        const result = await fn(attempt);
+        if (result.isOk()) {
+            return Either.Ok(result.getValue());
+        }
+
+        const error = result.getError();
+        errors.push(error);
+
+        const delay = policy.nextDelay(attempt, error, scheduler.now() - start);
+        if (delay === undefined) {
+            return Either.Error(new RetryError({
+                errors,
+                message: `Operation failed after ${attempt} attempt${attempt === 1 ? '' : 's'}`
+            }));
+        }
+
+        await scheduler.sleep(delay);
+    }
+}
+
+/**
+ * Polls an Either-returning operation until its value satisfies the predicate
+ * @template T - Type of the polled value
+ * @template E - Type of the operation error
+ * @param fn - Operation to poll - receives the attempt number starting at 1
+ * @param predicate - Condition the value must satisfy
+ * @param options - Retry policy and optional scheduler
+ * @returns Promise<Either<T, RetryError<E | ConditionNotMetError>>> - First satisfying value, or every attempt's error
+ * @example
+ * ```typescript
+ * const job = await pollUntil(
+ *     () => safeAsync({ fn: () => api.getJob(jobId), ErrClass: ApiError }),
+ *     job => job.status === 'done',
+ *     { policy: RetryPolicy.fixed(1000).maxElapsed(60_000).maxAttempts(Infinity) }
+ * );
+ * ```
+ */
+export function pollUntil<T, E>(
+    fn: (attempt: number) => Either<T, E> | PromiseLike<Either<T, E>>,
+    predicate: (value: T) => boolean,
+    options: RetryOptions<E | ConditionNotMetError>
+): Promise<Either<T, RetryError<E | ConditionNotMetError>>> {
+    return retry(async (attempt): Promise<Either<T, E | ConditionNotMetError>> => {
+        const result = await fn(attempt);
+        if (result.isError() || predicate(result.getValue())) {
+            return result;
+        }
+
+        return Either.Error(new ConditionNotMetError({
+            value: result.getValue(),
+            message: 'Polled value did not satisfy the condition'
+        }));
+    }, options);
+}
@@ -0,0 +1,66 @@
+/**
+ * Value carrying a literal discriminant in its `_tag` property
+ * @template Tag - Literal tag type
+ */
+export interface Tagged<Tag extends string = string> {
+    readonly _tag: Tag;
+}
+
+/** Extracts the union of tags from a union of types, ignoring untagged members */
+export type TagOf<E> = E extends Tagged<infer K> ? K : never;
+
+/**
+ * Handlers for Either.matchTag - one per tag, plus `orElse` when the union contains untagged members
+ * @template E - Union of error types
+ * @template R - Return type of every handler
+ */
+export type MatchTagHandlers<E, R> =
+    { [K in TagOf<E>]: (error: Extract<E, Tagged<K>>) => R } &
+    ([Exclude<E, Tagged>] extends [never] ? unknown : { orElse: (error: Exclude<E, Tagged>) => R });
+
+/**
+ * Constructor returned by TaggedError - call it with the extra fields type, e.g. `TaggedError('NotFound')<{ id: string }>`
+ * @template Tag - Literal tag type
+ */
+export type TaggedErrorConstructor<Tag extends string> = new <A extends Record<string, unknown> = Record<never, never>>(
+    ...args: keyof A extends never ? [args?: { message?: string }] : [args: A & { message?: string }]
+) => Error & Tagged<Tag> & Readonly<A>;
+
+/**
+ * Creates a base class for errors with a literal `_tag`, usable with Either.catchTag and Either.matchTag
+ * @template Tag - Literal tag type
+ * @param tag - Tag of the error class, also used as its name and default message
+ * @returns TaggedErrorConstructor<Tag> - Base class to extend with the extra fields type
+ * @example
+ * ```typescript
+ * class NotFoundError extends TaggedError('NotFound')<{ id: string }> {}
+ * class TimeoutError extends TaggedError('Timeout')<{ ms: number }> {}
+ *
+ * const error = new NotFoundError({ id: '42', message: 'User 42 not found' });
+ * console.log(error._tag, error.id); // NotFound 42
+ * ```
+ */
+export function TaggedError<Tag extends string>(tag: Tag): TaggedErrorConstructor<Tag> {
+    class TaggedErrorBase extends Error {
+        public readonly _tag: Tag = tag;
+
+        constructor(args?: Record<string, unknown> & { message?: string }) {
+            super(args?.message ?? tag);
+            this.name = tag;
+            if (args) Object.assign(this, args);
+        }
+    }
+
+    return TaggedErrorBase as unknown as TaggedErrorConstructor<Tag>;
+}
+
+/**
+ * Checks whether a value carries the given tag
+ * @template K - Tag to look for
+ * @param value - Value to check
+ * @param tag - Expected tag
+ * @returns true if value is an object whose `_tag` equals tag
+ */
+export function hasTag<K extends string>(value: unknown, tag: K): value is Tagged<K> {
+    return typeof value === 'object' && value !== null && (value as Partial<Tagged>)._tag === tag;
+}
@@ -0,0 +1,331 @@
+import { Either } from './either';
+
+/** Array with at least one element */
+export type NonEmptyArray<T> = [T, ...T[]];
+
+/** Extracts the success type of a Validation */
+export type ValidOf<V> = V extends Validation<infer T, unknown> ? T : never;
+
+/** Extracts the union of error types of a union of Validation types */
+export type InvalidOf<V> = V extends Validation<unknown, infer E> ? E : never;
+
+/**
+ * Interface for pattern matching expressions in Validation fold operations
+ * @template R - Return type of both functions
+ * @template E - Error type
+ * @template T - Success value type
+ */
+interface ValidationFoldExpression<R, E, T> {
+    /** Function to handle the accumulated errors */
+    fnError: (errors: NonEmptyArray<E>) => R;
+    /** Function to handle success cases */
+    fnOk: (value: T) => R;
+}
+
+/**
+ * Validation implementation that accumulates every error instead of stopping at the first one
+ * @template T - Type of the success value
+ * @template E - Type of each individual error
+ */
+export class Validation<T, E> {
+    /**
+     * Private constructor to ensure Validation instances are created through static methods
+     * @param value - Success value (only for Valid instances)
+     * @param errors - Accumulated errors (only for Invalid instances)
+     * @param _isValid - Boolean for result state
+     */
+    private constructor(
+        private readonly value: T | undefined,
+        private readonly errors: NonEmptyArray<E> | undefined,
+        private readonly _isValid: boolean
+    ) { }
+
+    /**
+     * Creates a successful Validation containing a value
+     * @template T - Type of the success value
+     * @param value - The success value to wrap
+     * @returns Validation<T, never> - Valid instance
+     * @example
+     * ```typescript
+     * const name = Validation.Valid('John');
+     * ```
+     */
+    static Valid<T>(value: T): Validation<T, never> {
+        return new Validation<T, never>(value, undefined, true);
+    }
+
+    /**
+     * Creates a failed Validation containing one or more errors
+     * @template E - Type of the errors
+     * @param error - First error
+     * @param rest - Additional errors
+     * @returns Validation<never, E> - Invalid instance
+     * @example
+     * ```typescript
+     * const email = Validation.Invalid('Email is required', 'Email must contain @');
+     * ```
+     */
+    static Invalid<E>(error: E, ...rest: E[]): Validation<never, E> {
+        return new Validation<never, E>(undefined, [error, ...rest], false);
+    }
+
+    /**
+     * Converts an Either to a Validation, wrapping the error in a single-element array
+     * @template T - Type of the success value
+     * @template E - Type of the error
+     * @param either - Either to convert
+     * @returns Validation<T, E> - Valid with the Ok value, or Invalid with the error
+     * @example
+     * ```typescript
+     * const age = Validation.fromEither(fromPredicate(input.age, age => age >= 18, new Error('Too young')));
+     * ```
+     */
+    static fromEither<T, E>(either: Either<T, E>): Validation<T, E> {
+        return either.isOk()
+            ? Validation.Valid(either.getValue())
+            : Validation.Invalid(either.getError());
+    }
+
+    /**
+     * Combines a record of validations into a validation of a record, accumulating every error
+     * @template R - Record of Validation instances
+     * @param validations - Record whose values are validations (may have different types)
+     * @returns Validation of the record of success values, or all errors from every invalid field
+     * @example
+     * ```typescript
+     * const form = Validation.combine({
+     *     name: validateName(input.name),
+     *     email: validateEmail(input.email),
+     *     age: validateAge(input.age)
+     * }); // Validation<{ name: string; email: string; age: number }, FieldError>
+     * ```
+     */
+    static combine<R extends Record<string, Validation<unknown, unknown>>>(
+        validations: R
+    ): Validation<{ [K in keyof R]: ValidOf<R[K]> }, InvalidOf<R[keyof R]>> {
+        const keys = Object.keys(validations) as (keyof R)[];
+        return Validation.all(keys.map(key => validations[key])).map(values =>
+            Object.fromEntries(keys.map((key, i) => [key, values[i]])) as { [K in keyof R]: ValidOf<R[K]> }
+        ) as Validation<{ [K in keyof R]: ValidOf<R[K]> }, InvalidOf<R[keyof R]>>;
+    }
+
+    /**
+     * Combines a tuple or array of validations into a validation of a tuple, accumulating every error
+     * @template V - Tuple of Validation instances
+     * @param validations - Validations to combine (may have different types)
+     * @returns Validation of the tuple of success values, or all errors in input order
+     * @example
+     * ```typescript
+     * const pair = Validation.all([validateName(name), validateAge(age)]); // Validation<[string, number], FieldError>
+     * ```
+     */
+    static all<V extends readonly Validation<unknown, unknown>[] | []>(
+        validations: V
+    ): Validation<{ -readonly [K in keyof V]: ValidOf<V[K]> }, InvalidOf<V[number]>> {
+        const values: unknown[] = [];
+        const errors: unknown[] = [];
+
+        for (const validation of validations) {
+            if (validation.isValid()) {
+                values.push(validation.value);
+            } else {
+                errors.push(...validation.errors!);
+            }
+        }
+
+        return (errors.length > 0
+            ? Validation.Invalid(errors[0], ...errors.slice(1))
+            : Validation.Valid(values)) as Validation<{ -readonly [K in keyof V]: ValidOf<V[K]> }, InvalidOf<V[number]>>;
+    }
+
+    /**
+     * Combines several validations with a function, accumulating every error
+     * @template V - Tuple of Validation instances
+     * @template R - Type of the combined result
+     * @param validations - Validations to combine (may have different types)
+     * @param fn - Function receiving every success value in order
+     * @returns Validation<R, InvalidOf<V[number]>> - Combined result, or all errors in input order
+     * @example
+     * ```typescript
+     * const user = Validation.zipWith(
+     *     [validateName(input.name), validateEmail(input.email), validateAge(input.age)],
+     *     (name, email, age) => new User(name, email, age)
+     * );
+     * ```
+     */
+    static zipWith<V extends readonly Validation<unknown, unknown>[] | [], R>(
+        validations: V,
+        fn: (...values: { -readonly [K in keyof V]: ValidOf<V[K]> }) => R
+    ): Validation<R, InvalidOf<V[number]>> {
+        return Validation.all(validations).map(values => fn(...values));
+    }
+
+    /**
+     * Maps array values to Validation and combines the results, accumulating every error
+     * @template A - Type of input values
+     * @template T - Type of output success values
+     * @template E - Type of error values
+     * @param values - Array of input values to validate
+     * @param fn - Function that validates each value
+     * @returns Validation<T[], E> - Array of validated values, or all errors in input order
+     * @example
+     * ```typescript
+     * const prices = Validation.traverse(items, item =>
+     *     item.price >= 0 ? Validation.Valid(item.price) : Validation.Invalid(`Invalid price for ${item.sku}`)
+     * );
+     * ```
+     */
+    static traverse<A, T, E>(values: A[], fn: (value: A) => Validation<T, E>): Validation<T[], E> {
+        return Validation.all(values.map(fn)) as Validation<T[], E>;
+    }
+
+    /**
+     * Type guard to check if Validation contains a success value
+     * @returns true if Validation is Valid, false otherwise
+     */
+    public isValid(): this is Validation<T, never> {
+        return this._isValid;
+    }
+
+    /**
+     * Type guard to check if Validation contains errors
+     * @returns true if Validation is Invalid, false otherwise
+     */
+    public isInvalid(): this is Validation<never, E> {
+        return !this._isValid;
+    }
+
+    /**
+     * Extracts the success value from Valid instance
+     * @returns The success value
+     * @throws Error if called on Invalid instance
+     */
+    public getValue(): T {
+        if (!this.isValid()) {
+            throw new Error('Cannot access value in a non-Valid instance');
+        }
+
+        return this.value as T;
+    }
+
+    /**
+     * Extracts the accumulated errors from Invalid instance
+     * @returns NonEmptyArray<E> - Every accumulated error
+     * @throws Error if called on Valid instance
+     */
+    public getErrors(): NonEmptyArray<E> {
+        if (!this.isInvalid()) {
+            throw new Error('Cannot access errors in a non-Invalid instance');
+        }
+
+        return this.errors!;
+    }
+
+    /**
+     * Pattern matching for Validation values
+     * @template R - Return type of both handler functions
+     * @param expressions - Object containing handlers for the success value and the accumulated errors
+     * @returns Result of executing the appropriate handler function
+     * @example
+     * ```typescript
+     * const response = validation.fold({
+     *     fnOk: (user) => ({ status: 201, body: user }),
+     *     fnError: (errors) => ({ status: 400, body: errors })
+     * });
+     * ```
+     */
+    public fold<R>(expressions: ValidationFoldExpression<R, E, T>): R {
+        return this.isInvalid()
+            ? expressions.fnError(this.errors!)
+            : expressions.fnOk(this.value!);
+    }
+
+    /**
+     * Transforms the success value if Valid, otherwise returns the errors unchanged
+     * @template U - Type of the transformed value
+     * @param fn - Transformation function to apply to success value
+     * @returns Validation<U, E> - New Validation with transformed value or original errors
+     */
+    public map<U>(fn: (value: T) => U): Validation<U, E> {
+        return this.isValid()
+            ? Validation.Valid(fn(this.value!))
+            : new Validation<U, E>(undefined, this.errors, false);
+    }
+
+    /**
+     * Transforms each accumulated error if Invalid, otherwise returns Valid unchanged
+     * @template F - Type of the new errors
+     * @param fn - Function to transform each error
+     * @returns Validation<T, F> - Validation with transformed errors or original success
+     */
+    public mapErrors<F>(fn: (error: E) => F): Validation<T, F> {
+        return this.isInvalid()
+            ? new Validation<T, F>(undefined, this.errors!.map(fn) as NonEmptyArray<F>, false)
+            : Validation.Valid(this.value!);
+    }
+
+    /**
+     * Chains a dependent validation - stops at the first Invalid since the next step needs the value
+     * @template U - Type of the new success value
+     * @template F - Error type of the next validation
+     * @param fn - Function that takes the success value and returns a Validation
+     * @returns Validation<U, E | F> - Result of the next validation or original errors
+     * @example
+     * ```typescript
+     * const email = validateRequired(input.email).flatMap(validateEmailFormat);
+     * ```
+     */
+    public flatMap<U, F>(fn: (value: T) => Validation<U, F>): Validation<U, E | F> {
+        return this.isValid()
+            ? fn(this.value!)
+            : new Validation<U, E | F>(undefined, this.errors, false);
+    }
+
+    /**
+     * Combines two validations into a tuple, accumulating the errors of both
+     * @template U - Type of the other Validation's success value
+     * @template F - Type of the other Validation's errors
+     * @param other - Another Validation to combine with
+     * @returns Validation<[T, U], E | F> - Tuple of both values, or the errors of both sides
+     */
+    public zip<U, F>(other: Validation<U, F>): Validation<[T, U], E | F> {
+        return Validation.all([this, other]);
+    }
+
+    /**
+     * Combines two validations using a function, accumulating the errors of both
+     * @template U - Type of the other Validation's success value
+     * @template F - Type of the other Validation's errors
+     * @template R - Type of the combined result
+     * @param other - Another Validation to combine with
+     * @param fn - Function to combine the two success values
+     * @returns Validation<R, E | F> - Combined result, or the errors of both sides
+     */
+    public zipWith<U, F, R>(other: Validation<U, F>, fn: (a: T, b: U) => R): Validation<R, E | F> {
+        return this.zip(other).map(([a, b]) => fn(a, b));
+    }
+
+    /**
+     * Safely extracts value with fallback for Invalid cases
+     * @param defaultValue - Value to return if Validation is Invalid
+     * @returns The success value or the provided default value
+     */
+    public getOrElse(defaultValue: T): T {
+        return this.isValid() ? this.value! : defaultValue;
+    }
+
+    /**
+     * Converts Validation to Either with the accumulated errors in the Error channel
+     * @returns Either<T, NonEmptyArray<E>> - Ok with the value, or Error with every accumulated error
+     * @example
+     * ```typescript
+     * const result = Validation.combine({ name, email }).toEither();
+     * result.mapError(errors => new BadRequestError(errors.join(', ')));
+     * ```
+     */
+    public toEither(): Either<T, NonEmptyArray<E>> {
+        return this.isValid()
+            ? Either.Ok(this.value!)
+            : Either.Error(this.errors!);
+    }
+}
@@ -0,0 +1,132 @@
+import { Decoder, DecodeError, Infer } from '../src';
+
+describe('Decoder', () => {
+    describe('Primitives', () => {
+        it('should decode matching primitives', () => {
+            expect(Decoder.string.decode('text').getValue()).toBe('text');
+            expect(Decoder.number.decode(42).getValue()).toBe(42);
+            expect(Decoder.boolean.decode(false).getValue()).toBe(false);
+            expect(Decoder.unknown.decode({ any: 'thing' }).getValue()).toEqual({ any: 'thing' });
+        });
+
+        it('should reject mismatching primitives with a root path issue', () => {
+            const result = Decoder.string.decode(42);
+
+            expect(result.isError()).toBe(true);
+            expect(result.getError()).toBeInstanceOf(DecodeError);
+            expect(result.getError().issues).toEqual([{ path: '$', message: 'expected string, received number' }]);
+        });
+
+        it('should reject NaN as a number', () => {
+            expect(Decoder.number.decode(NaN).getError().issues[0].message).toBe('expected number, received NaN');
+        });
+
+        it('should decode literals', () => {
+            const Status = Decoder.literal('active', 'suspended');
+
+            expect(Status.decode('active').getValue()).toBe('active');
+            expect(Status.decode('deleted').getError().issues[0].message)
+                .toBe('expected "active" | "suspended", received "deleted"');
+        });
+
+        it('should return an Error instead of throwing for BigInt and circular literal input', () => {
+            const circular: Record<string, unknown> = {};
+            circular.self = circular;
+            const Status = Decoder.literal('active');
+
+            expect(Status.decode(10n).getError().issues[0].message).toBe('expected "active", received bigint');
+            expect(Status.decode(circular).getError().issues[0].message).toBe('expected "active", received object');
+        });
+    });
+
+    describe('Combinators', () => {
+        const Item = Decoder.object({
+            sku: Decoder.string,
+            price: Decoder.number.refine(price => price >= 0, 'expected a non-negative price')
+        });
+        const Order = Decoder.object({
+            id: Decoder.union(Decoder.string, Decoder.number),
+            status: Decoder.literal('open', 'closed'),
+            note: Decoder.optional(Decoder.string),
+            coupon: Decoder.nullable(Decoder.string),
+            items: Decoder.array(Item),
+            metadata: Decoder.record(Decoder.string)
+        });
+
+        it('should decode valid nested input and infer its type', () => {
+            const input = {
+                id: 7,
+                status: 'open',
+                coupon: null,
+                items: [{ sku: 'A-1', price: 10 }],
+                metadata: { source: 'web' },
+                extra: 'dropped'
+            };
+
+            const result = Order.decode(input);
+            const order: Infer<typeof Order> = result.getValue();
+
+            expect(order).toEqual({
+                id: 7,
+                status: 'open',
+                coupon: null,
+                items: [{ sku: 'A-1', price: 10 }],
+                metadata: { source: 'web' }
+            });
+            expect('note' in order).toBe(false);
+        });
+
+        it('should report every failing field with its JSON path', () => {
+            const result = Order.decode({
+                id: true,
+                status: 'open',
+                note: 5,
+                coupon: null,
+                items: [{ sku: 'A-1', price: 10 }, { sku: 2, price: -1 }],
+                metadata: { 'source-system': 1 }
+            });
+
+            expect(result.getError().issues).toEqual([
+                { path: '$.id', message: 'no union member matched (expected string, received boolean; expected number, received boolean)' },
+                { path: '$.note', message: 'expected string, received number' },
+                { path: '$.items[1].sku', message: 'expected string, received number' },
+                { path: '$.items[1].price', message: 'expected a non-negative price' },
+                { path: '$.metadata["source-system"]', message: 'expected string, received number' }
+            ]);
+        });
+
+        it('should report missing required fields', () => {
+            const result = Item.decode({});
+
+            expect(result.getError().issues.map(issue => issue.path)).toEqual(['$.sku', '$.price']);
+            expect(result.getError().message).toBe('$.sku: expected string, received undefined\n$.price: expected number, received undefined');
+        });
+
+        it('should reject non-object and non-array input', () => {
+            expect(Item.decode([]).getError().issues[0].message).toBe('expected object, received array');
+            expect(Decoder.array(Decoder.string).decode(null).getError().issues[0].message).toBe('expected array, received null');
+            expect(Decoder.record(Decoder.string).decode('x').getError().issues[0].message).toBe('expected object, received string');
+        });
+
+        it('should keep a __proto__ key of record input as an own entry', () => {
+            const input: unknown = JSON.parse('{"__proto__":{"polluted":"yes"},"source":"web"}');
+            const result = Decoder.record(Decoder.unknown).decode(input).getValue();
+
+            expect(Object.keys(result)).toEqual(['__proto__', 'source']);
+            expect(Object.getPrototypeOf(result)).toBe(Object.prototype);
+            expect('polluted' in result).toBe(false);
+        });
+
+        it('should build refine messages from the value', () => {
+            const Even = Decoder.number.refine(n => n % 2 === 0, n => `expected an even number, received ${n}`);
+            expect(Even.decode(3).getError().issues[0].message).toBe('expected an even number, received 3');
+        });
+
+        it('should transform decoded values and report thrown errors', () => {
+            const Url = Decoder.string.transform(value => new URL(value));
+
+            expect(Url.decode('https://example.com/a').getValue().pathname).toBe('/a');
+            expect(Url.decode('not a url').getError().issues[0].path).toBe('$');
+        });
+    });
+});
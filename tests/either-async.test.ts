@@ -0,0 +1,198 @@
+import { DoAsync, Either, EitherAsync, safeAsync } from '../src';
+
+describe('EitherAsync', () => {
+    class ApiError extends Error {}
+    class NotFoundError extends Error {}
+
+    describe('Constructors', () => {
+        it('should create Ok and Error instances', async () => {
+            const ok = await EitherAsync.Ok(42);
+            const error = await EitherAsync.Error('failed');
+
+            expect(ok.getValue()).toBe(42);
+            expect(error.getError()).toBe('failed');
+        });
+
+        it('should wrap a safeAsync result with from()', async () => {
+            const result = await EitherAsync.from(safeAsync({ fn: async () => 'data', ErrClass: ApiError })).run();
+
+            expect(result.isOk()).toBe(true);
+            expect(result.getValue()).toBe('data');
+        });
+
+        it('should wrap a plain Either with from() and toAsync()', async () => {
+            const fromEither = await EitherAsync.from(Either.Ok(1));
+            const viaToAsync = await Either.Error('failed').toAsync();
+
+            expect(fromEither.getValue()).toBe(1);
+            expect(viaToAsync.getError()).toBe('failed');
+        });
+
+        it('should return the same instance when wrapping an EitherAsync', () => {
+            const original = EitherAsync.Ok(1);
+            expect(EitherAsync.from(original)).toBe(original);
+        });
+
+        it('should map rejections with fromPromise()', async () => {
+            const resolved = await EitherAsync.fromPromise(Promise.resolve(5), () => new ApiError('unused'));
+            const rejected = await EitherAsync.fromPromise(
+                Either.Error(new NotFoundError('missing')).toPromise(),
+                reason => reason as NotFoundError
+            );
+
+            expect(resolved.getValue()).toBe(5);
+            expect(rejected.getError()).toBeInstanceOf(NotFoundError);
+        });
+
+        it('should run operations through safeAsync with safe()', async () => {
+            const ok = await EitherAsync.safe({ fn: async () => 42, ErrClass: ApiError });
+            const failed = await EitherAsync.safe({
+                fn: () => Promise.reject(new Error('Timeout')),
+                ErrClass: ApiError
+            });
+
+            expect(ok.getValue()).toBe(42);
+            expect(failed.getError()).toBeInstanceOf(ApiError);
+            expect((failed.getError() as ApiError).message).toBe('Timeout');
+        });
+    });
+
+    describe('Transformation Methods', () => {
+        it('should map with sync and async functions', async () => {
+            const result = await EitherAsync.Ok(5)
+                .map(x => x * 2)
+                .map(async x => x + 1);
+
+            expect(result.getValue()).toBe(11);
+        });
+
+        it('should not call map on Error', async () => {
+            const fn = jest.fn();
+            const result = await EitherAsync.Error('failed').map(fn);
+
+            expect(fn).not.toHaveBeenCalled();
+            expect(result.getError()).toBe('failed');
+        });
+
+        it('should flatMap with Either, Promise<Either> and EitherAsync', async () => {
+            const result = await EitherAsync.Ok(1)
+                .flatMap(x => Either.Ok(x + 1))
+                .flatMap(x => safeAsync({ fn: async () => x + 1, ErrClass: ApiError }))
+                .flatMap(x => EitherAsync.Ok(x + 1));
+
+            expect(result.getValue()).toBe(4);
+        });
+
+        it('should short-circuit flatMap on Error and widen the error type', async () => {
+            const fn = jest.fn(async (x: number) => Either.Ok(x));
+            const result: Either<number, NotFoundError | ApiError> = await EitherAsync
+                .Error(new NotFoundError('missing'))
+                .flatMap(fn)
+                .flatMap(x => EitherAsync.safe({ fn: async () => x, ErrClass: ApiError }));
+
+            expect(fn).not.toHaveBeenCalled();
+            expect(result.getError()).toBeInstanceOf(NotFoundError);
+        });
+
+        it('should transform errors with mapError', async () => {
+            const result = await EitherAsync.Error('failed').mapError(async msg => new ApiError(msg));
+
+            expect(result.getError()).toBeInstanceOf(ApiError);
+            expect(result.getError().message).toBe('failed');
+        });
+    });
+
+    describe('Recovery and Side Effects', () => {
+        it('should recover from errors with recoverWith', async () => {
+            const result = await EitherAsync.Error(new NotFoundError('cache miss'))
+                .recoverWith(async () => Either.Ok('from database'));
+
+            expect(result.getValue()).toBe('from database');
+        });
+
+        it('should not call recoverWith on Ok', async () => {
+            const fn = jest.fn();
+            const result = await EitherAsync.Ok('cached').recoverWith(fn);
+
+            expect(fn).not.toHaveBeenCalled();
+            expect(result.getValue()).toBe('cached');
+        });
+
+        it('should await async side effects in tap and tapError', async () => {
+            const calls: string[] = [];
+            const ok = await EitherAsync.Ok(1)
+                .tap(async value => { calls.push(`ok:${value}`); })
+                .tapError(() => { calls.push('unexpected'); });
+            const error = await EitherAsync.Error('failed')
+                .tap(() => { calls.push('unexpected'); })
+                .tapError(async error => { calls.push(`error:${error}`); });
+
+            expect(ok.getValue()).toBe(1);
+            expect(error.getError()).toBe('failed');
+            expect(calls).toEqual(['ok:1', 'error:failed']);
+        });
+    });
+
+    describe('Combination and Extraction', () => {
+        it('should fold into a Promise of the handler result', async () => {
+            const ok = await EitherAsync.Ok(42).fold({ fnOk: value => `Success: ${value}`, fnError: () => 'Error' });
+            const error = await EitherAsync.Error('failed').fold({ fnOk: () => 'Success', fnError: async e => `Error: ${e}` });
+
+            expect(ok).toBe('Success: 42');
+            expect(error).toBe('Error: failed');
+        });
+
+        it('should zip with other Either-like values', async () => {
+            const both = await EitherAsync.Ok(1).zip(Promise.resolve(Either.Ok('a')));
+            const failed = await EitherAsync.Ok(1).zip(EitherAsync.Error('failed'));
+
+            expect(both.getValue()).toEqual([1, 'a']);
+            expect(failed.getError()).toBe('failed');
+        });
+
+        it('should return the first error when both sides fail in zip', async () => {
+            const result = await EitherAsync.Error('first').zip(Either.Error('second'));
+            expect(result.getError()).toBe('first');
+        });
+
+        it('should extract values with getOrElse', async () => {
+            const result: EitherAsync<string, string> = EitherAsync.Error('failed');
+
+            expect(await EitherAsync.Ok('value').getOrElse('default')).toBe('value');
+            expect(await result.getOrElse('default')).toBe('default');
+        });
+
+        it('should accumulate named values with Do, bind and let', async () => {
+            const result = await EitherAsync.Do
+                .bind('user', () => safeAsync({ fn: async () => ({ name: 'John' }), ErrClass: ApiError }))
+                .bind('orders', async () => Either.Ok([10, 20]))
+                .let('total', ({ orders }) => orders.reduce((sum, amount) => sum + amount, 0));
+
+            expect(result.getValue()).toEqual({ user: { name: 'John' }, orders: [10, 20], total: 30 });
+        });
+    });
+
+    describe('Promise Interop', () => {
+        it('should convert back with run()', async () => {
+            const promise = EitherAsync.Ok(1).run();
+
+            expect(promise).toBeInstanceOf(Promise);
+            expect((await promise).getValue()).toBe(1);
+        });
+
+        it('should propagate unexpected exceptions thrown inside steps as rejections', async () => {
+            const result = EitherAsync.Ok(1).map(() => { throw new Error('Bug'); });
+            await expect(result.run()).rejects.toThrow('Bug');
+        });
+
+        it('should keep DoAsync.from as an alias building EitherAsync', async () => {
+            const builder: DoAsync<{ id: number }, never> = DoAsync.from(Promise.resolve(Either.Ok({ id: 1 })));
+            const result = await builder
+                .bind('name', async ({ id }) => Either.Ok(`user ${id}`))
+                .map(({ name }) => name);
+
+            expect(builder).toBeInstanceOf(EitherAsync);
+            expect(result.getValue()).toBe('user 1');
+        });
+    });
+});
@@ -0,0 +1,219 @@
+import { Either, ReleaseError, bracket, bracketAsync } from '../src';
+
+// What the ESNext.Disposable lib declares - the project itself compiles against ES2020 only
+declare global {
+    interface SymbolConstructor {
+        readonly dispose: unique symbol;
+        readonly asyncDispose: unique symbol;
+    }
+}
+
+describe('Resource brackets', () => {
+    class Connection {
+        public closed = false;
+
+        close(): void {
+            this.closed = true;
+        }
+    }
+
+    class DisposableHandle {
+        public disposed = false;
+
+        [Symbol.dispose](): void {
+            this.disposed = true;
+        }
+    }
+
+    class AsyncDisposableHandle {
+        public disposedWith: string | undefined;
+
+        async [Symbol.asyncDispose](): Promise<void> {
+            this.disposedWith = 'asyncDispose';
+        }
+
+        [Symbol.dispose](): void {
+            this.disposedWith = 'dispose';
+        }
+    }
+
+    describe('bracket()', () => {
+        it('should return the use result and release the resource', () => {
+            const conn = new Connection();
+            const result = bracket(() => Either.Ok(conn), c => Either.Ok(c.closed ? 'late' : 'rows'), c => c.close());
+
+            expect(result.getValue()).toBe('rows');
+            expect(conn.closed).toBe(true);
+        });
+
+        it('should release the resource when use returns an Error', () => {
+            const conn = new Connection();
+            const result = bracket(() => Either.Ok(conn), () => Either.Error('query failed'), c => c.close());
+
+            expect(result.getError()).toBe('query failed');
+            expect(conn.closed).toBe(true);
+        });
+
+        it('should skip use and release when acquire fails', () => {
+            const use = jest.fn();
+            const release = jest.fn();
+            const result = bracket(() => Either.Error('pool exhausted'), use, release);
+
+            expect(result.getError()).toBe('pool exhausted');
+            expect(use).not.toHaveBeenCalled();
+            expect(release).not.toHaveBeenCalled();
+        });
+
+        it('should return a ReleaseError when release throws after a successful use', () => {
+            const releaseError = new Error('close failed');
+            const result = bracket(() => Either.Ok(new Connection()), () => Either.Ok('rows'), () => {
+                throw releaseError;
+            });
+
+            const error = result.getError() as ReleaseError;
+            expect(error).toBeInstanceOf(ReleaseError);
+            expect(error._tag).toBe('ReleaseError');
+            expect(error.message).toBe('Resource release failed');
+            expect(error.releaseError).toBe(releaseError);
+            expect(error.useError).toBeUndefined();
+        });
+
+        it('should combine the use error with an Error returned by release', () => {
+            const result = bracket(
+                () => Either.Ok(new Connection()),
+                (): Either<string, string> => Either.Error('query failed'),
+                () => Either.Error('close failed')
+            );
+
+            const error = result.getError() as ReleaseError<string>;
+            expect(error.message).toBe('Resource release failed after use failed');
+            expect(error.useError).toBe('query failed');
+            expect(error.releaseError).toBe('close failed');
+        });
+
+        it('should release and rethrow when use throws', () => {
+            const conn = new Connection();
+            const thrown = new Error('bug');
+
+            expect(() => bracket(() => Either.Ok(conn), () => {
+                throw thrown;
+            }, c => c.close())).toThrow(thrown);
+            expect(conn.closed).toBe(true);
+        });
+
+        it('should throw a ReleaseError carrying both exceptions when use and release throw', () => {
+            const thrown = new Error('bug');
+            let caught: unknown;
+            try {
+                bracket(() => Either.Ok(new Connection()), () => {
+                    throw thrown;
+                }, () => {
+                    throw new Error('close failed');
+                });
+            } catch (error) {
+                caught = error;
+            }
+
+            expect(caught).toBeInstanceOf(ReleaseError);
+            expect((caught as ReleaseError<Error>).useError).toBe(thrown);
+            expect((caught as ReleaseError).message).toBe('Resource release failed after use threw');
+        });
+
+        it('should dispose resources implementing Symbol.dispose when no release is given', () => {
+            const handle = new DisposableHandle();
+            const result = bracket(() => Either.Ok(handle), h => Either.Ok(h.disposed));
+
+            expect(result.getValue()).toBe(false);
+            expect(handle.disposed).toBe(true);
+        });
+
+        it('should throw a TypeError before use when the resource has no dispose method', () => {
+            const use = jest.fn();
+
+            expect(() => bracket(
+                () => Either.Ok(new Connection() as unknown as DisposableHandle),
+                use
+            )).toThrow(new TypeError('Resource has no [Symbol.dispose]() method - pass a release function'));
+            expect(use).not.toHaveBeenCalled();
+        });
+
+        it('should require a release function for resources that are not disposable', () => {
+            // @ts-expect-error - Connection has no [Symbol.dispose]()
+            expect(() => bracket(() => Either.Ok(new Connection()), () => Either.Ok(1))).toThrow(TypeError);
+        });
+    });
+
+    describe('bracketAsync()', () => {
+        it('should await acquire, use and release in order', async () => {
+            const calls: string[] = [];
+            const result = await bracketAsync(
+                async () => {
+                    calls.push('acquire');
+                    return Either.Ok(new Connection());
+                },
+                async () => {
+                    calls.push('use');
+                    return Either.Ok(42);
+                },
+                async c => {
+                    calls.push('release');
+                    c.close();
+                }
+            );
+
+            expect(result.getValue()).toBe(42);
+            expect(calls).toEqual(['acquire', 'use', 'release']);
+        });
+
+        it('should skip use and release when acquire fails', async () => {
+            const release = jest.fn();
+            const result = await bracketAsync(async () => Either.Error('refused'), async () => Either.Ok(1), release);
+
+            expect(result.getError()).toBe('refused');
+            expect(release).not.toHaveBeenCalled();
+        });
+
+        it('should combine the use error with a rejected release', async () => {
+            const result = await bracketAsync(
+                async () => Either.Ok(new Connection()),
+                async (): Promise<Either<number, string>> => Either.Error('query failed'),
+                () => Promise.reject(new Error('close failed'))
+            );
+
+            const error = result.getError() as ReleaseError<string>;
+            expect(error).toBeInstanceOf(ReleaseError);
+            expect(error.useError).toBe('query failed');
+            expect((error.releaseError as Error).message).toBe('close failed');
+        });
+
+        it('should release and rethrow when use rejects', async () => {
+            const conn = new Connection();
+
+            await expect(bracketAsync(
+                async () => Either.Ok(conn),
+                () => Promise.reject(new Error('bug')),
+                async c => c.close()
+            )).rejects.toThrow('bug');
+            expect(conn.closed).toBe(true);
+        });
+
+        it('should prefer Symbol.asyncDispose when no release is given', async () => {
+            const handle = new AsyncDisposableHandle();
+            await bracketAsync(async () => Either.Ok(handle), async () => Either.Ok(null));
+
+            expect(handle.disposedWith).toBe('asyncDispose');
+        });
+
+        it('should fall back to Symbol.dispose when no release is given', async () => {
+            const handle = new DisposableHandle();
+            await bracketAsync(() => Either.Ok(handle), () => Either.Ok(null));
+
+            expect(handle.disposed).toBe(true);
+        });
+
+        it('should reject with a TypeError when the resource has no dispose method', async () => {
+            await expect(bracketAsync(async () => Either.Ok(new Connection() as unknown as DisposableHandle), async () => Either.Ok(1)))
+                .rejects.toThrow('Resource has no [Symbol.asyncDispose]() or [Symbol.dispose]() method - pass a release function');
+        });
+    });
+});
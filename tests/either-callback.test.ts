@@ -0,0 +1,104 @@
+import { Either, NodeCallback, eitherify, fromCallbackResult, toCallback } from '../src';
+
+describe('Callback interop', () => {
+    class IoError extends Error {
+        constructor(message?: string) {
+            super(message);
+            this.name = 'IoError';
+        }
+    }
+
+    const readFile = (path: string, encoding: string, cb: NodeCallback<string>): void => {
+        setTimeout(() => {
+            if (path === 'missing.txt') cb(new Error('ENOENT: no such file'), '');
+            else if (path === 'weird.txt') cb({ code: 'EWEIRD' }, '');
+            else cb(null, `${path}:${encoding}`);
+        }, 0);
+    };
+
+    describe('fromCallbackResult()', () => {
+        it('should return Ok for null or undefined errors', () => {
+            expect(fromCallbackResult(null, 5, IoError).getValue()).toBe(5);
+            expect(fromCallbackResult(undefined, 'x', IoError).getValue()).toBe('x');
+        });
+
+        it('should wrap errors with the error class, keeping the cause', () => {
+            const original = new Error('disk full');
+            const result = fromCallbackResult(original, undefined, IoError);
+            const error = result.getError() as IoError & { cause?: unknown };
+
+            expect(error).toBeInstanceOf(IoError);
+            expect(error.message).toBe('disk full');
+            expect(error.cause).toBe(original);
+        });
+
+        it('should extract messages from non-Error values like safeAsync', () => {
+            expect(fromCallbackResult('timeout', null, IoError).getError().message).toBe('timeout');
+            expect(fromCallbackResult({ code: 1 }, null, IoError).getError().message)
+                .toBe(JSON.stringify({ code: 1 }, null, 2));
+        });
+    });
+
+    describe('eitherify()', () => {
+        it('should keep the leading parameters and resolve to Either', async () => {
+            const read = eitherify(readFile, IoError);
+            const result: Either<string, IoError> = await read('a.txt', 'utf8');
+
+            expect(result.getValue()).toBe('a.txt:utf8');
+        });
+
+        it('should wrap callback errors', async () => {
+            const read = eitherify(readFile, (thrown, { message }) => new IoError(`read failed: ${message}`));
+
+            expect((await read('missing.txt', 'utf8')).getError().message).toBe('read failed: ENOENT: no such file');
+            expect((await read('weird.txt', 'utf8')).getError().message).toContain('EWEIRD');
+        });
+
+        it('should convert synchronous throws', async () => {
+            const broken = eitherify((_: number, __: NodeCallback<number>) => { throw new TypeError('bad arg'); }, IoError);
+
+            expect((await broken(1)).getError().message).toBe('bad arg');
+        });
+
+        it('should only honour the first callback invocation and forward this', async () => {
+            const source = {
+                prefix: 'v',
+                get(this: { prefix: string }, cb: NodeCallback<string>) {
+                    cb(null, `${this.prefix}1`);
+                    cb(null, `${this.prefix}2`);
+                }
+            };
+            const fetch = eitherify(source.get, IoError);
+
+            expect((await fetch.call(source)).getValue()).toBe('v1');
+        });
+    });
+
+    describe('toCallback()', () => {
+        it('should deliver Either values synchronously', () => {
+            const cb = jest.fn();
+            toCallback(Either.Ok(1), cb);
+            toCallback(Either.Error(new IoError('x')), cb);
+
+            expect(cb).toHaveBeenNthCalledWith(1, null, 1);
+            expect(cb).toHaveBeenNthCalledWith(2, expect.any(IoError));
+        });
+
+        it('should deliver Promises of Either and rejections', async () => {
+            const results = await Promise.all([
+                new Promise(resolve => toCallback(Promise.resolve(Either.Ok('done')), (err, value) => resolve([err, value]))),
+                new Promise(resolve => toCallback(Promise.reject(new Error('crash')), err => resolve((err as Error).message)))
+            ]);
+
+            expect(results).toEqual([[null, 'done'], 'crash']);
+        });
+
+        it('should round-trip with eitherify', async () => {
+            const legacy = (n: number, cb: NodeCallback<number>) => toCallback(n > 0 ? Either.Ok(n * 2) : Either.Error(new IoError('neg')), cb);
+            const modern = eitherify(legacy, IoError);
+
+            expect((await modern(2)).getValue()).toBe(4);
+            expect((await modern(-1)).getError().message).toBe('neg');
+        });
+    });
+});
@@ -0,0 +1,83 @@
+import { Either, SafeAsync, SafeSync, TaggedError } from '../src';
+
+describe('Method decorators', () => {
+    class ServiceError extends Error {
+        constructor(message?: string) {
+            super(message);
+            this.name = 'ServiceError';
+        }
+    }
+    class NotFoundError extends TaggedError('NotFound')<{ id: string }> {}
+
+    class UserService {
+        private readonly users = new Map([['1', { id: '1', name: 'Ada' }]]);
+
+        @SafeSync(ServiceError)
+        parseLimit(text: string): Either<number, ServiceError> {
+            const limit = Number(text);
+            if (Number.isNaN(limit)) throw new TypeError(`invalid limit: ${text}`);
+            return Either.Ok(limit);
+        }
+
+        @SafeSync((_, { message }) => new ServiceError(`validation: ${message}`))
+        validate(name: string): Either<string, ServiceError | NotFoundError> {
+            if (name === 'ghost') return Either.Error(new NotFoundError({ id: name }));
+            if (!name) throw new Error('empty name');
+            return Either.Ok(name);
+        }
+
+        @SafeAsync(ServiceError)
+        async getUser(id: string): Promise<Either<{ id: string; name: string }, ServiceError | NotFoundError>> {
+            if (id === 'boom') throw new Error('db down');
+            const user = this.users.get(id);
+            return user ? Either.Ok(user) : Either.Error(new NotFoundError({ id }));
+        }
+
+        @SafeAsync(ServiceError)
+        async reject(): Promise<Either<never, ServiceError>> {
+            return Promise.reject('connection reset');
+        }
+    }
+
+    const service = new UserService();
+
+    describe('@SafeSync', () => {
+        it('should pass returned Eithers through unchanged', () => {
+            expect(service.parseLimit('10').getValue()).toBe(10);
+            expect(service.validate('ghost').getError()).toBeInstanceOf(NotFoundError);
+        });
+
+        it('should convert throws with the error class, keeping the cause', () => {
+            const result = service.parseLimit('x');
+            const error = result.getError() as ServiceError & { cause?: unknown };
+
+            expect(error).toBeInstanceOf(ServiceError);
+            expect(error.message).toBe('invalid limit: x');
+            expect(error.cause).toBeInstanceOf(TypeError);
+        });
+
+        it('should convert throws with an onError factory', () => {
+            expect(service.validate('').getError().message).toBe('validation: empty name');
+        });
+
+        it('should keep the method name', () => {
+            expect(service.parseLimit.name).toBe('parseLimit');
+        });
+    });
+
+    describe('@SafeAsync', () => {
+        it('should flatten returned Eithers', async () => {
+            expect((await service.getUser('1')).getValue()).toEqual({ id: '1', name: 'Ada' });
+            expect((await service.getUser('2')).getError()).toBeInstanceOf(NotFoundError);
+        });
+
+        it('should convert throws and rejections', async () => {
+            const thrown = await service.getUser('boom');
+            const rejected = await service.reject();
+
+            expect(thrown.getError()).toBeInstanceOf(ServiceError);
+            expect((thrown.getError() as Error).message).toBe('db down');
+            expect(rejected.getError().message).toBe('connection reset');
+        });
+    });
+});
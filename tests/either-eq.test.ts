@@ -0,0 +1,95 @@
+import { Either, deepEqual, hashValue } from '../src';
+
+describe('Either equality', () => {
+    describe('equals()', () => {
+        it('should compare Ok values structurally', () => {
+            expect(Either.Ok({ id: 1, tags: ['a', 'b'] }).equals(Either.Ok({ id: 1, tags: ['a', 'b'] }))).toBe(true);
+            expect(Either.Ok({ id: 1 }).equals(Either.Ok({ id: 2 }))).toBe(false);
+        });
+
+        it('should compare Errors by name and message', () => {
+            expect(Either.Error(new Error('boom')).equals(Either.Error(new Error('boom')))).toBe(true);
+            expect(Either.Error<Error>(new Error('boom')).equals(Either.Error(new TypeError('boom')))).toBe(false);
+            expect(Either.Error(new Error('boom')).equals(Either.Error(new Error('bang')))).toBe(false);
+        });
+
+        it('should never consider Ok equal to Error', () => {
+            const ok: Either<number, number> = Either.Ok(1);
+            const error: Either<number, number> = Either.Error(1);
+            expect(ok.equals(error)).toBe(false);
+            expect(error.equals(ok)).toBe(false);
+        });
+
+        it('should use custom equality instances when given', () => {
+            const byId = { equals: (a: { id: number }, b: { id: number }) => a.id === b.id };
+            expect(Either.Ok({ id: 1, v: 1 }).equals(Either.Ok({ id: 1, v: 2 }), { eqOk: byId })).toBe(true);
+
+            const byCode = { equals: (a: { code: string }, b: { code: string }) => a.code === b.code };
+            expect(Either.Error({ code: 'E1', at: 1 }).equals(Either.Error({ code: 'E1', at: 2 }), { eqError: byCode }))
+                .toBe(true);
+        });
+    });
+
+    describe('getEq()', () => {
+        it('should build an Eq instance usable for lookups', () => {
+            const eq = Either.getEq<number, string>({ equals: (a, b) => Math.abs(a - b) < 0.01 });
+            const items = [Either.Ok<number>(1.001), Either.Error<string>('nope')];
+
+            expect(items.some(item => eq.equals(item, Either.Ok(1)))).toBe(true);
+            expect(eq.equals(Either.Error('nope'), Either.Error('nope'))).toBe(true);
+        });
+
+        it('should default to structural equality', () => {
+            const eq = Either.getEq<number[], Error>();
+            expect(eq.equals(Either.Ok([1, 2]), Either.Ok([1, 2]))).toBe(true);
+        });
+    });
+
+    describe('hash()', () => {
+        it('should be stable for structurally equal values', () => {
+            expect(Either.Ok({ a: 1, b: [2, 3] }).hash()).toBe(Either.Ok({ b: [2, 3], a: 1 }).hash());
+            expect(Either.Error(new Error('x')).hash()).toBe(Either.Error(new Error('x')).hash());
+        });
+
+        it('should distinguish Ok from Error with the same contents', () => {
+            expect(Either.Ok(1).hash()).not.toBe(Either.Error(1).hash());
+        });
+
+        it('should return an unsigned 32-bit integer', () => {
+            const hash = Either.Ok('value').hash();
+            expect(Number.isInteger(hash)).toBe(true);
+            expect(hash).toBeGreaterThanOrEqual(0);
+            expect(hash).toBeLessThan(2 ** 32);
+        });
+    });
+
+    describe('deepEqual() and hashValue()', () => {
+        it('should handle dates, maps, sets and nested Eithers', () => {
+            expect(deepEqual(new Date(5), new Date(5))).toBe(true);
+            expect(deepEqual(new Map([['a', { x: 1 }]]), new Map([['a', { x: 1 }]]))).toBe(true);
+            expect(deepEqual(new Set([1, 2]), new Set([2, 1]))).toBe(true);
+            expect(deepEqual({ inner: Either.Ok([1]) }, { inner: Either.Ok([1]) })).toBe(true);
+            expect(hashValue(new Set([1, 2]))).toBe(hashValue(new Set([2, 1])));
+        });
+
+        it('should not treat class instances as plain objects', () => {
+            class Point { constructor(public x: number) {} }
+            expect(deepEqual(new Point(1), new Point(1))).toBe(false);
+            expect(deepEqual({ x: 1 }, new Point(1))).toBe(false);
+        });
+
+        it('should handle cyclic structures', () => {
+            const a: Record<string, unknown> = { id: 1 };
+            a.self = a;
+            const b: Record<string, unknown> = { id: 1 };
+            b.self = b;
+
+            expect(deepEqual(a, b)).toBe(true);
+            expect(hashValue(a)).toBe(hashValue(b));
+        });
+
+        it('should treat NaN as equal to itself', () => {
+            expect(Either.Ok(NaN).equals(Either.Ok(NaN))).toBe(true);
+        });
+    });
+});
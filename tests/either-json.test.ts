@@ -0,0 +1,157 @@
+import { Either, ErrorRegistry, RetryError, TaggedError, errorRegistry } from '../src';
+
+describe('Either JSON wire format', () => {
+    class PaymentError extends Error {
+        constructor(message?: string, public readonly code = 'DECLINED') {
+            super(message);
+            this.name = 'PaymentError';
+        }
+    }
+    class NotFoundError extends TaggedError('NotFound')<{ id: string }> {}
+
+    describe('toJSON()', () => {
+        it('should serialize Ok values', () => {
+            expect(Either.Ok({ id: 1 }).toJSON()).toEqual({ _tag: 'Ok', _version: 1, value: { id: 1 } });
+            expect(JSON.stringify(Either.Ok(42))).toBe('{"_tag":"Ok","_version":1,"value":42}');
+        });
+
+        it('should serialize plain error values', () => {
+            expect(Either.Error('failed').toJSON()).toEqual({
+                _tag: 'Error',
+                _version: 1,
+                error: { kind: 'value', value: 'failed' }
+            });
+        });
+
+        it('should keep name, message, stack, cause and own fields of Errors', () => {
+            const cause = new TypeError('socket closed');
+            const error = new PaymentError('Card declined', 'INSUFFICIENT_FUNDS');
+            Object.defineProperty(error, 'cause', { value: cause, enumerable: false });
+
+            const json = Either.Error(error).toJSON();
+
+            expect(json).toEqual({
+                _tag: 'Error',
+                _version: 1,
+                error: {
+                    kind: 'error',
+                    type: 'PaymentError',
+                    name: 'PaymentError',
+                    message: 'Card declined',
+                    stack: error.stack,
+                    cause: {
+                        kind: 'error',
+                        type: 'TypeError',
+                        name: 'TypeError',
+                        message: 'socket closed',
+                        stack: cause.stack,
+                        data: {}
+                    },
+                    data: { code: 'INSUFFICIENT_FUNDS' }
+                }
+            });
+        });
+
+        it('should stop on circular causes', () => {
+            const error = new Error('loop');
+            Object.defineProperty(error, 'cause', { value: error });
+
+            const json = Either.Error(error).toJSON();
+            expect(json._tag === 'Error' && json.error.kind === 'error' && json.error.cause)
+                .toEqual({ kind: 'value', value: '[Circular Error]' });
+        });
+    });
+
+    describe('Either.fromJSON()', () => {
+        it('should round-trip Ok values through JSON strings', () => {
+            const result = Either.fromJSON<{ id: number }, never>(JSON.stringify(Either.Ok({ id: 1 })));
+
+            expect(result.isOk()).toBe(true);
+            expect(result.getValue()).toEqual({ id: 1 });
+        });
+
+        it('should revive built-in errors as their own class', () => {
+            const result = Either.fromJSON<never, RangeError>(JSON.stringify(Either.Error(new RangeError('Out of range'))));
+
+            expect(result.getError()).toBeInstanceOf(RangeError);
+            expect(result.getError().message).toBe('Out of range');
+        });
+
+        it('should revive registered errors as real instances of their class', () => {
+            const registry = new ErrorRegistry().register(PaymentError, NotFoundError);
+            const original = new PaymentError('Card declined', 'EXPIRED');
+            Object.defineProperty(original, 'cause', { value: new NotFoundError({ id: 'card-1' }) });
+
+            const result = Either.fromJSON<never, PaymentError>(JSON.stringify(Either.Error(original)), { registry });
+            const error = result.getError();
+            const cause = (error as PaymentError & { cause?: unknown }).cause as NotFoundError;
+
+            expect(error).toBeInstanceOf(PaymentError);
+            expect(error.name).toBe('PaymentError');
+            expect(error.message).toBe('Card declined');
+            expect(error.code).toBe('EXPIRED');
+            expect(error.stack).toBe(original.stack);
+            expect(cause).toBeInstanceOf(NotFoundError);
+            expect(cause._tag).toBe('NotFound');
+            expect(cause.id).toBe('card-1');
+        });
+
+        it('should use the shared registry by default', () => {
+            class SharedRegistryError extends Error {}
+            errorRegistry.register(SharedRegistryError);
+
+            const result = Either.fromJSON(Either.Error(new SharedRegistryError('shared')).toJSON());
+            expect(result.getError()).toBeInstanceOf(SharedRegistryError);
+        });
+
+        it('should fall back to Error for unknown classes', () => {
+            const json = Either.Error(new PaymentError('Card declined')).toJSON();
+            const error = Either.fromJSON<never, Error>(json, { registry: new ErrorRegistry() }).getError();
+
+            expect(error).toBeInstanceOf(Error);
+            expect(error).not.toBeInstanceOf(PaymentError);
+            expect(error.name).toBe('PaymentError');
+        });
+
+        it('should revive Errors held in fields such as RetryError.errors', () => {
+            const registry = new ErrorRegistry().register(RetryError, PaymentError);
+            const declined = new PaymentError('Card declined', 'EXPIRED');
+            const original = new RetryError<PaymentError | string>({
+                errors: [declined, declined, 'rate limited'],
+                message: 'Operation failed after 3 attempts'
+            });
+
+            const result = Either.fromJSON<never, RetryError<PaymentError | string>>(
+                JSON.stringify(Either.Error(original)),
+                { registry }
+            );
+            const [first, second, third] = result.getError().errors as [PaymentError, PaymentError, string];
+
+            expect(result.getError()).toBeInstanceOf(RetryError);
+            expect(first).toBeInstanceOf(PaymentError);
+            expect(first.message).toBe('Card declined');
+            expect(first.code).toBe('EXPIRED');
+            expect(first.stack).toBe(declined.stack);
+            expect(second.message).toBe('Card declined');
+            expect(third).toBe('rate limited');
+        });
+
+        it('should not let wire data replace the prototype of a revived error', () => {
+            const payload = '{"_tag":"Error","_version":1,"error":{"kind":"error","type":"Error","name":"Error",'
+                + '"message":"boom","data":{"__proto__":{"isAdmin":true},"constructor":"x","code":"E1"}}}';
+            const error = Either.fromJSON<never, Error & { isAdmin?: boolean; code?: string }>(payload).getError();
+
+            expect(error).toBeInstanceOf(Error);
+            expect(error.isAdmin).toBeUndefined();
+            expect(error.constructor).toBe(Error);
+            expect(error.code).toBe('E1');
+        });
+
+        it('should throw TypeError for invalid or unsupported payloads', () => {
+            expect(() => Either.fromJSON({ _tag: 'Ok', value: 1 })).toThrow(TypeError);
+            expect(() => Either.fromJSON({ _tag: 'Ok', _version: 2, value: 1 })).toThrow('Invalid Either JSON');
+            expect(() => Either.fromJSON({ _tag: 'Error', _version: 1, error: 'oops' })).toThrow(TypeError);
+            expect(() => Either.fromJSON(null)).toThrow(TypeError);
+        });
+    });
+});
@@ -0,0 +1,129 @@
+import { Either, eitherifyAll, liftAsync, liftSync } from '../src';
+
+describe('Function lifters', () => {
+    class ParseError extends Error {
+        constructor(message?: string, options?: { cause?: unknown }) {
+            super(message);
+            this.name = 'ParseError';
+            if (options) Object.defineProperty(this, 'cause', { value: options.cause });
+        }
+    }
+    class ApiError extends Error {
+        constructor(message: string, public readonly status: number) {
+            super(message);
+        }
+    }
+
+    describe('liftSync()', () => {
+        it('should return Ok for successful calls with the same parameters', () => {
+            const add = liftSync((a: number, b: number) => a + b, Error);
+            const result: Either<number, Error> = add(2, 3);
+
+            expect(result.getValue()).toBe(5);
+        });
+
+        it('should convert throws with an error class, keeping the cause', () => {
+            const parse = liftSync((text: string): unknown => JSON.parse(text), ParseError);
+            const result = parse('{');
+
+            expect(result.getError()).toBeInstanceOf(ParseError);
+            expect((result.getError() as ParseError & { cause?: unknown }).cause).toBeInstanceOf(SyntaxError);
+        });
+
+        it('should convert throws with an onError factory', () => {
+            const fail = liftSync((): number => { throw new Error('down'); }, (_, { message }) => new ApiError(message, 503));
+            const result = fail();
+
+            expect(result.getError()).toBeInstanceOf(ApiError);
+            expect(result.getError().status).toBe(503);
+        });
+
+        it('should forward this', () => {
+            const counter = {
+                count: 1,
+                next: liftSync(function (this: { count: number }, step: number) { return this.count + step; }, Error)
+            };
+
+            expect(counter.next(2).getValue()).toBe(3);
+        });
+    });
+
+    describe('liftAsync()', () => {
+        it('should resolve to Ok or Error', async () => {
+            const fetchUser = liftAsync(async (id: number) => {
+                if (id < 0) throw new Error('not found');
+                return { id };
+            }, Error);
+
+            expect((await fetchUser(1)).getValue()).toEqual({ id: 1 });
+            expect((await fetchUser(-1)).getError().message).toBe('not found');
+        });
+
+        it('should flatten Either results like safeAsync', async () => {
+            const check = liftAsync(async (n: number) => (n > 0 ? Either.Ok(n) : Either.Error('non-positive' as const)), Error);
+            const result: Either<number, 'non-positive' | Error> = await check(0);
+
+            expect(result.getError()).toBe('non-positive');
+        });
+    });
+
+    describe('eitherifyAll()', () => {
+        class Client {
+            public readonly baseUrl = 'https://api.test';
+            private calls = 0;
+
+            getCalls(): number {
+                return this.calls;
+            }
+
+            async get(path: string): Promise<string> {
+                this.calls++;
+                if (path === '/missing') throw new Error('404');
+                return `${this.baseUrl}${path}`;
+            }
+
+            parse(text: string): number {
+                const value = Number(text);
+                if (Number.isNaN(value)) throw new Error(`not a number: ${text}`);
+                return value;
+            }
+        }
+
+        it('should wrap sync and async methods with typed results', async () => {
+            const client = eitherifyAll(new Client(), ApiErrorFactory);
+            const page: Either<string, ApiError> = await client.get('/users');
+            const parsed: Either<number, ApiError> = client.parse('12');
+
+            expect(page.getValue()).toBe('https://api.test/users');
+            expect(parsed.getValue()).toBe(12);
+            expect(client.parse('x').getError().message).toBe('not a number: x');
+            expect((await client.get('/missing')).getError().status).toBe(500);
+        });
+
+        it('should call methods on the original object and pass properties through', async () => {
+            const original = new Client();
+            const client = eitherifyAll(original, Error);
+            await client.get('/a');
+
+            expect(client.baseUrl).toBe('https://api.test');
+            expect(client.getCalls().getValue()).toBe(1);
+            expect(original.getCalls()).toBe(1);
+        });
+
+        it('should return stable wrapped methods', () => {
+            const client = eitherifyAll(new Client(), Error);
+            expect(client.parse).toBe(client.parse);
+        });
+
+        it('should wrap plain module objects', () => {
+            const math = eitherifyAll({ sqrt: (n: number) => { if (n < 0) throw new RangeError('negative'); return Math.sqrt(n); } }, Error);
+
+            expect(math.sqrt(9).getValue()).toBe(3);
+            expect(math.sqrt(-1).getError().message).toBe('negative');
+        });
+
+        function ApiErrorFactory(_: unknown, { message }: { message: string }): ApiError {
+            return new ApiError(message, 500);
+        }
+    });
+});
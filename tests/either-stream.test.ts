@@ -0,0 +1,109 @@
+import { Readable } from 'stream';
+import {
+    Either,
+    ErrorBudgetExceededError,
+    collectWithErrorBudget,
+    mapEither,
+    partitionStream,
+    takeUntilError
+} from '../src';
+
+describe('Stream helpers', () => {
+    const parseRow = (line: string): Either<number, string> => {
+        const value = Number(line);
+        return Number.isNaN(value) ? Either.Error(`bad row: ${line}`) : Either.Ok(value);
+    };
+
+    async function* lines(...items: string[]): AsyncGenerator<string> {
+        for (const item of items) {
+            yield item;
+        }
+    }
+
+    async function toArray<T>(source: AsyncIterable<T>): Promise<T[]> {
+        const items: T[] = [];
+        for await (const item of source) items.push(item);
+        return items;
+    }
+
+    describe('mapEither()', () => {
+        it('should yield one Either per item without stopping on errors', async () => {
+            const results = await toArray(mapEither(lines('1', 'x', '3'), parseRow));
+
+            expect(results.map(r => (r.isOk() ? r.getValue() : r.getError()))).toEqual([1, 'bad row: x', 3]);
+        });
+
+        it('should pass the index and await async results', async () => {
+            const results = await toArray(mapEither(['a', 'b'], async (item, index) => Either.Ok(`${index}:${item}`)));
+
+            expect(results.map(r => r.getValue())).toEqual(['0:a', '1:b']);
+        });
+
+        it('should work with Node Readable streams', async () => {
+            const results = await toArray(mapEither(Readable.from(['4', '5']), parseRow));
+
+            expect(results.map(r => r.getValue())).toEqual([4, 5]);
+        });
+    });
+
+    describe('takeUntilError()', () => {
+        it('should stop after the first Error and include it', async () => {
+            const results = await toArray(takeUntilError(mapEither(lines('1', 'x', '3', 'y'), parseRow)));
+
+            expect(results).toHaveLength(2);
+            expect(results[1].getError()).toBe('bad row: x');
+        });
+
+        it('should stop reading the source', async () => {
+            const read: string[] = [];
+            async function* source() {
+                for (const item of ['1', 'x', '3']) {
+                    read.push(item);
+                    yield item;
+                }
+            }
+
+            await toArray(takeUntilError(mapEither(source(), parseRow)));
+            expect(read).toEqual(['1', 'x']);
+        });
+    });
+
+    describe('partitionStream()', () => {
+        it('should send values and errors to their sinks in order', async () => {
+            const ok: number[] = [];
+            const errors: string[] = [];
+            const counts = await partitionStream(mapEither(lines('1', 'x', '2', 'y'), parseRow), {
+                ok: async value => { ok.push(value); },
+                error: error => { errors.push(error); }
+            });
+
+            expect(ok).toEqual([1, 2]);
+            expect(errors).toEqual(['bad row: x', 'bad row: y']);
+            expect(counts).toEqual({ ok: 2, error: 2 });
+        });
+    });
+
+    describe('collectWithErrorBudget()', () => {
+        it('should collect values and tolerated errors', async () => {
+            const result = await collectWithErrorBudget(mapEither(lines('1', 'x', '2'), parseRow), { maxErrors: 1 });
+
+            expect(result.getValue()).toEqual({ values: [1, 2], errors: ['bad row: x'] });
+        });
+
+        it('should fail once the budget is exceeded and stop reading', async () => {
+            const stream = Readable.from(['x', '1', 'y', 'z', '2']);
+            const result = await collectWithErrorBudget(mapEither(stream, parseRow), { maxErrors: 1 });
+
+            expect(result.getError()).toBeInstanceOf(ErrorBudgetExceededError);
+            expect(result.getError().errors).toEqual(['bad row: x', 'bad row: y']);
+            expect(result.getError().message).toBe('Error budget exceeded: 2 errors (max 1)');
+            expect(stream.destroyed).toBe(true);
+        });
+
+        it('should fail fast with a zero budget', async () => {
+            const result = await collectWithErrorBudget([Either.Ok(1), Either.Error('e'), Either.Ok(2)], { maxErrors: 0 });
+
+            expect(result.getError().errors).toEqual(['e']);
+        });
+    });
+});
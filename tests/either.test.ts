@@ -1,4 +1,4 @@
-import { Either, safeSync, safeAsync, fromNullable, fromPredicate, sequence, partition, traverse, collectAllErrors } from '../src';
+import { Either, safeSync, safeAsync, fromNullable, fromPredicate, sequence, partition, traverse, collectAllErrors, traverseAsync, sequenceAsync, TimeoutError, AbortedError, ErrorType } from '../src';
 
 describe('Either Core Class - Complete Tests', () => {
     
@@ -371,6 +371,19 @@ describe('Either Core Class - Complete Tests', () => {
             });
         });
 
+        describe('toOption()', () => {
+            it('should return Some with value for Ok instance', () => {
+                const option = Either.Ok(42).toOption();
+                expect(option.isSome()).toBe(true);
+                expect(option.getValue()).toBe(42);
+            });
+
+            it('should return None for Error instance', () => {
+                const option = Either.Error('failed').toOption();
+                expect(option.isNone()).toBe(true);
+            });
+        });
+
         describe('swap()', () => {
             it('should swap Ok to Error', () => {
                 const result = Either.Ok(42).swap();
@@ -491,6 +504,193 @@ describe('Either Core Class - Complete Tests', () => {
             });
         });
     });
+
+    describe('Do Notation', () => {
+        class NotFoundError extends Error {}
+        class ValidationError extends Error {}
+
+        const findUser = (id: number): Either<{ id: number; name: string }, NotFoundError> =>
+            id > 0 ? Either.Ok({ id, name: 'John' }) : Either.Error(new NotFoundError(`User ${id} not found`));
+        const validateAge = (age: number): Either<number, ValidationError> =>
+            age >= 18 ? Either.Ok(age) : Either.Error(new ValidationError('Too young'));
+
+        describe('Either.gen()', () => {
+            it('should unwrap Ok values and return Ok with the final result', () => {
+                const result = Either.gen(function* () {
+                    const user = yield* findUser(1);
+                    const age = yield* validateAge(30);
+                    return `${user.name} (${age})`;
+                });
+
+                expect(result.isOk()).toBe(true);
+                expect(result.getValue()).toBe('John (30)');
+            });
+
+            it('should short-circuit on the first Error', () => {
+                const afterFailure = jest.fn();
+                const result = Either.gen(function* () {
+                    const user = yield* findUser(-1);
+                    afterFailure();
+                    const age = yield* validateAge(10);
+                    return `${user.name} (${age})`;
+                });
+
+                expect(afterFailure).not.toHaveBeenCalled();
+                expect(result.isError()).toBe(true);
+                expect(result.getError()).toBeInstanceOf(NotFoundError);
+            });
+
+            it('should infer the union of yielded error types', () => {
+                const result: Either<number, NotFoundError | ValidationError> = Either.gen(function* () {
+                    yield* findUser(1);
+                    return yield* validateAge(10);
+                });
+
+                expect(result.getError()).toBeInstanceOf(ValidationError);
+            });
+
+            it('should run finally blocks when short-circuiting', () => {
+                const cleanup = jest.fn();
+                const result = Either.gen(function* () {
+                    try {
+                        return yield* findUser(-1);
+                    } finally {
+                        cleanup();
+                    }
+                });
+
+                expect(result.isError()).toBe(true);
+                expect(cleanup).toHaveBeenCalledTimes(1);
+            });
+
+            it('should return Ok for generators that yield nothing', () => {
+                const result = Either.gen(function* () {
+                    return 42;
+                });
+
+                expect(result.getValue()).toBe(42);
+            });
+
+            it('should exit early on yield* Either.Error', () => {
+                const result = Either.gen(function* () {
+                    const value = yield* Either.Ok(-5);
+                    if (value < 0) {
+                        yield* Either.Error('negative');
+                    }
+                    return value;
+                });
+
+                expect(result.getError()).toBe('negative');
+            });
+        });
+
+        describe('Either.genAsync()', () => {
+            it('should exit early on yield* Either.Error', async () => {
+                const fail = (): ErrorType<string> => Either.Error('negative');
+                const result = await Either.genAsync(async function* () {
+                    const value = yield* await Promise.resolve(Either.Ok(-5));
+                    if (value < 0) {
+                        yield* fail();
+                    }
+                    return value;
+                });
+
+                expect(result.getError()).toBe('negative');
+            });
+
+            it('should unwrap Promise<Either> values from safeAsync', async () => {
+                const result = await Either.genAsync(async function* () {
+                    const user = yield* findUser(1);
+                    const score = yield* await safeAsync({ fn: async () => 99, ErrClass: Error });
+                    return `${user.name}: ${score}`;
+                });
+
+                expect(result.isOk()).toBe(true);
+                expect(result.getValue()).toBe('John: 99');
+            });
+
+            it('should short-circuit on the first Error', async () => {
+                const afterFailure = jest.fn();
+                const result = await Either.genAsync(async function* () {
+                    const value = yield* await safeAsync({
+                        fn: async () => { throw new Error('Network down'); },
+                        ErrClass: Error
+                    });
+                    afterFailure();
+                    return value;
+                });
+
+                expect(afterFailure).not.toHaveBeenCalled();
+                expect(result.isError()).toBe(true);
+                expect((result.getError() as Error).message).toBe('Network down');
+            });
+        });
+
+        describe('Either.Do', () => {
+            it('should accumulate named values with bind and let', () => {
+                const result = Either.Do
+                    .bind('user', () => findUser(1))
+                    .bind('age', () => validateAge(30))
+                    .let('label', ({ user, age }) => `${user.name} (${age})`);
+
+                expect(result.isOk()).toBe(true);
+                expect(result.getValue()).toEqual({
+                    user: { id: 1, name: 'John' },
+                    age: 30,
+                    label: 'John (30)'
+                });
+            });
+
+            it('should short-circuit on the first Error', () => {
+                const nextStep = jest.fn(() => validateAge(30));
+                const result: Either<unknown, NotFoundError | ValidationError> = Either.Do
+                    .bind('user', () => findUser(-1))
+                    .bind('age', nextStep);
+
+                expect(nextStep).not.toHaveBeenCalled();
+                expect(result.getError()).toBeInstanceOf(NotFoundError);
+            });
+
+            it('should not mutate previous records', () => {
+                const base = Either.Do.let('a', () => 1);
+                const extended = base.let('b', () => 2);
+
+                expect(base.getValue()).toEqual({ a: 1 });
+                expect(extended.getValue()).toEqual({ a: 1, b: 2 });
+            });
+        });
+
+        describe('Either.DoAsync', () => {
+            it('should accumulate values from sync and async steps', async () => {
+                const result = await Either.DoAsync
+                    .bind('user', () => findUser(1))
+                    .bind('score', () => safeAsync({ fn: async () => 99, ErrClass: Error }))
+                    .let('label', async ({ user, score }) => `${user.name}: ${score}`);
+
+                expect(result.isOk()).toBe(true);
+                expect(result.getValue().label).toBe('John: 99');
+            });
+
+            it('should short-circuit on the first Error', async () => {
+                const nextStep = jest.fn(async () => validateAge(30));
+                const result = await Either.DoAsync
+                    .bind('user', () => safeAsync({ fn: () => Promise.reject(new Error('Offline')), ErrClass: NotFoundError }))
+                    .bind('age', nextStep)
+                    .run();
+
+                expect(nextStep).not.toHaveBeenCalled();
+                expect(result.getError()).toBeInstanceOf(NotFoundError);
+            });
+
+            it('should transform the final record with map', async () => {
+                const result = await Either.DoAsync
+                    .bind('user', () => findUser(1))
+                    .map(({ user }) => user.name);
+
+                expect(result.getValue()).toBe('John');
+            });
+        });
+    });
 });
 
 describe('Utility Functions', () => {
@@ -557,6 +757,67 @@ describe('Utility Functions', () => {
             expect(result.getError()).toBeInstanceOf(CustomError);
             expect(result.getError().message).toBe('Original error');
         });
+
+        it('should pass the thrown value as cause to the error class', () => {
+            const original = new TypeError('bad input');
+            const result = safeSync({
+                fn: () => { throw original; },
+                ErrClass: Error
+            });
+
+            expect((result.getError() as Error & { cause?: unknown }).cause).toBe(original);
+        });
+
+        it('should attach the cause when the error class ignores constructor options', () => {
+            class LegacyError extends Error {
+                constructor(message?: string) {
+                    super(message);
+                    this.name = 'LegacyError';
+                }
+            }
+
+            const result = safeSync({
+                fn: () => { throw 'raw failure'; },
+                ErrClass: LegacyError
+            });
+            const error = result.getError() as LegacyError & { cause?: unknown };
+
+            expect(error.cause).toBe('raw failure');
+            expect(Object.keys(error)).not.toContain('cause');
+        });
+
+        it('should pass the thrown value as { cause } to the error class constructor', () => {
+            const received: unknown[] = [];
+            class OptionsError extends Error {
+                constructor(message?: string, options?: { cause?: unknown }) {
+                    super(message);
+                    received.push(options);
+                }
+            }
+
+            safeSync({ fn: () => { throw 'raw failure'; }, ErrClass: OptionsError });
+
+            expect(received).toEqual([{ cause: 'raw failure' }]);
+        });
+
+        it('should build errors with an onError factory', () => {
+            class HttpError extends Error {
+                constructor(message: string, public readonly status: number) {
+                    super(message);
+                }
+            }
+            const thrown = { status: 503, message: 'unavailable' };
+
+            const result = safeSync({
+                fn: (): number => { throw thrown; },
+                onError: (caught, { message }) => new HttpError(message, (caught as typeof thrown).status)
+            });
+
+            expect(result.getError()).toBeInstanceOf(HttpError);
+            expect(result.getError().status).toBe(503);
+            expect(result.getError().message).toBe(JSON.stringify(thrown, null, 2));
+            expect((result.getError() as HttpError & { cause?: unknown }).cause).toBe(thrown);
+        });
     });
 
     describe('safeAsync()', () => {
@@ -642,6 +903,134 @@ describe('Utility Functions', () => {
             expect(result.isError()).toBe(true);
             expect((result.getError() as Error).message).toBe(JSON.stringify(errorObj, null, 2));
         });
+
+        it('should pass the thrown value as cause and support onError', async () => {
+            const original = new Error('socket hang up');
+            const withClass = await safeAsync({
+                fn: async (): Promise<number> => { throw original; },
+                ErrClass: Error
+            });
+            const withFactory = await safeAsync({
+                fn: async (): Promise<number> => { throw original; },
+                onError: (_, { message }) => new RangeError(`wrapped: ${message}`)
+            });
+
+            expect((withClass.getError() as Error & { cause?: unknown }).cause).toBe(original);
+            expect(withFactory.getError()).toBeInstanceOf(RangeError);
+            expect((withFactory.getError() as Error).message).toBe('wrapped: socket hang up');
+            expect((withFactory.getError() as Error & { cause?: unknown }).cause).toBe(original);
+        });
+
+        describe('timeouts and cancellation', () => {
+            const never = (signal: AbortSignal) => new Promise<never>((_, reject) => {
+                signal.addEventListener('abort', () => reject(new Error('aborted by signal')));
+            });
+
+            it('should pass an AbortSignal to fn', async () => {
+                let received: AbortSignal | undefined;
+                await safeAsync({
+                    fn: async (signal) => { received = signal; return 1; },
+                    ErrClass: Error
+                });
+
+                expect(received).toBeDefined();
+                expect(received!.aborted).toBe(false);
+            });
+
+            it('should resolve with TimeoutError when the deadline passes', async () => {
+                let received: AbortSignal | undefined;
+                const result = await safeAsync({
+                    fn: (signal) => { received = signal; return never(signal); },
+                    ErrClass: Error,
+                    timeoutMs: 10
+                });
+
+                expect(result.isError()).toBe(true);
+                const error = result.getError();
+                expect(error).toBeInstanceOf(TimeoutError);
+                expect((error as TimeoutError).timeoutMs).toBe(10);
+                expect((error as TimeoutError).message).toBe('Operation timed out after 10ms');
+                expect(received!.aborted).toBe(true);
+            });
+
+            it('should return the result when fn finishes before the deadline', async () => {
+                const clearSpy = jest.spyOn(global, 'clearTimeout');
+                const result = await safeAsync({
+                    fn: async () => 'fast',
+                    ErrClass: Error,
+                    timeoutMs: 1000
+                });
+
+                expect(result.getValue()).toBe('fast');
+                expect(clearSpy).toHaveBeenCalled();
+                clearSpy.mockRestore();
+            });
+
+            it('should still wrap thrown errors with ErrClass', async () => {
+                class ServiceError extends Error {}
+                const result = await safeAsync({
+                    fn: async () => { throw new Error('Failed fast'); },
+                    ErrClass: ServiceError,
+                    timeoutMs: 1000
+                });
+
+                expect(result.getError()).toBeInstanceOf(ServiceError);
+            });
+
+            it('should resolve with AbortedError when the caller aborts', async () => {
+                const controller = new AbortController();
+                const pending = safeAsync({
+                    fn: never,
+                    ErrClass: Error,
+                    signal: controller.signal
+                });
+                controller.abort('user navigated away');
+
+                const error = (await pending).getError();
+                expect(error).toBeInstanceOf(AbortedError);
+                expect((error as AbortedError).reason).toBe('user navigated away');
+            });
+
+            it('should not call fn when the signal is already aborted', async () => {
+                const controller = new AbortController();
+                controller.abort();
+                const fn = jest.fn(async () => 1);
+                const result = await safeAsync({ fn, ErrClass: Error, signal: controller.signal });
+
+                expect(fn).not.toHaveBeenCalled();
+                expect(result.getError()).toBeInstanceOf(AbortedError);
+            });
+
+            it('should remove its abort listener once settled', async () => {
+                const controller = new AbortController();
+                const removeSpy = jest.spyOn(controller.signal, 'removeEventListener');
+                await safeAsync({ fn: async () => 1, ErrClass: Error, signal: controller.signal });
+
+                expect(removeSpy).toHaveBeenCalledWith('abort', expect.any(Function));
+            });
+
+            it('should include cancellation errors in the type when timeoutMs or signal may be undefined', async () => {
+                class ServiceError extends Error { status = 503; }
+                const options: { timeoutMs?: number; signal?: AbortSignal } = { timeoutMs: 10 };
+                const result = await safeAsync({
+                    fn: (signal) => never(signal).then(() => 'done'),
+                    ErrClass: ServiceError,
+                    timeoutMs: options.timeoutMs
+                });
+                const nested = await safeAsync({
+                    fn: async () => Either.Ok(1),
+                    ErrClass: ServiceError,
+                    signal: options.signal
+                });
+
+                const error = result.getError();
+                const narrowed = error instanceof ServiceError ? 'service' : error._tag;
+                const value: Either<number, ServiceError | TimeoutError | AbortedError> = nested;
+
+                expect(narrowed).toBe('TimeoutError');
+                expect(value.getValue()).toBe(1);
+            });
+        });
     });
 
     describe('fromNullable()', () => {
@@ -853,6 +1242,118 @@ describe('Utility Functions', () => {
             expect(result.getError()).toEqual(['e1', 'e2']);
         });
     });
+
+    describe('traverseAsync()', () => {
+        const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+        it('should transform all values preserving input order', async () => {
+            const result = await traverseAsync([30, 10, 20], async (ms) => {
+                await delay(ms);
+                return Either.Ok(ms * 2);
+            });
+
+            expect(result.isOk()).toBe(true);
+            expect(result.getValue()).toEqual([60, 20, 40]);
+        });
+
+        it('should respect the concurrency limit', async () => {
+            let active = 0;
+            let maxActive = 0;
+            const result = await traverseAsync([1, 2, 3, 4, 5, 6], async (value) => {
+                maxActive = Math.max(maxActive, ++active);
+                await delay(5);
+                active--;
+                return Either.Ok(value);
+            }, { concurrency: 2 });
+
+            expect(result.getValue()).toEqual([1, 2, 3, 4, 5, 6]);
+            expect(maxActive).toBe(2);
+        });
+
+        it('should fail fast, abort in-flight work and stop launching new work', async () => {
+            const started: number[] = [];
+            const signals: AbortSignal[] = [];
+            const result = await traverseAsync([1, 2, 3, 4], async (value, _, signal) => {
+                started.push(value);
+                signals.push(signal);
+                if (value === 1) return Either.Error(`failed ${value}`);
+                await delay(20);
+                return Either.Ok(value);
+            }, { concurrency: 2 });
+
+            expect(result.getError()).toBe('failed 1');
+            expect(started).toEqual([1, 2]);
+            expect(signals.every(signal => signal.aborted)).toBe(true);
+        });
+
+        it('should accumulate every error in input order', async () => {
+            const result = await traverseAsync([1, 2, 3, 4], async (value) => {
+                await delay(value === 2 ? 10 : 0);
+                return value % 2 === 0 ? Either.Error(`even ${value}`) : Either.Ok(value);
+            }, { mode: 'accumulate' });
+
+            expect(result.getError()).toEqual(['even 2', 'even 4']);
+        });
+
+        it('should accept synchronous Either results', async () => {
+            const result = await traverseAsync([1, 2], (value) => Either.Ok(value + 1));
+            expect(result.getValue()).toEqual([2, 3]);
+        });
+
+        it('should return Ok with empty array for empty input', async () => {
+            const result = await traverseAsync([], async () => Either.Ok(1));
+            expect(result.getValue()).toEqual([]);
+        });
+
+        it('should reject when fn throws', async () => {
+            await expect(traverseAsync([1], async () => { throw new Error('Bug'); })).rejects.toThrow('Bug');
+        });
+
+        it('should reject with a RangeError for an invalid concurrency', async () => {
+            for (const concurrency of [NaN, 0, -1, 1.5]) {
+                await expect(traverseAsync([1], async (value) => Either.Ok(value), { concurrency }))
+                    .rejects.toThrow(RangeError);
+            }
+        });
+
+        it('should accept an Infinity concurrency', async () => {
+            const result = await traverseAsync([1, 2], async (value) => Either.Ok(value), { concurrency: Infinity });
+            expect(result.getValue()).toEqual([1, 2]);
+        });
+    });
+
+    describe('sequenceAsync()', () => {
+        it('should run tasks and preserve order', async () => {
+            const result = await sequenceAsync([
+                async () => Either.Ok('a'),
+                () => Either.Ok('b'),
+                async () => Either.Ok('c')
+            ], { concurrency: 1 });
+
+            expect(result.getValue()).toEqual(['a', 'b', 'c']);
+        });
+
+        it('should accumulate errors like collectAllErrors', async () => {
+            const result = await sequenceAsync<number, string>([
+                async () => Either.Error('first'),
+                async () => Either.Ok(1),
+                async () => Either.Error('second')
+            ], { mode: 'accumulate' });
+
+            expect(result.getError()).toEqual(['first', 'second']);
+        });
+
+        it('should pass the abort signal to each task', async () => {
+            let received: AbortSignal | undefined;
+            const result = await sequenceAsync<number, string>([
+                async () => Either.Error('failed'),
+                async (signal) => { received = signal; return Either.Ok(1); }
+            ]);
+
+            expect(result.getError()).toBe('failed');
+            expect(received!.aborted).toBe(true);
+        });
+    });
 });
 
 describe('Edge Cases and Integration Tests', () => {
@@ -0,0 +1,123 @@
+import { Either, EitherAsync, TaggedError, bracket, formatContext, safeAsync, sequence, sequenceAsync, traverseAsync } from '../src';
+
+describe('Error context', () => {
+    class DbError extends Error {}
+    class NotFoundError extends TaggedError('NotFound')<{ id: number }> {}
+
+    const loadUser = (id: number): Either<string, NotFoundError> =>
+        Either.Error(new NotFoundError({ id, message: `user ${id} not found` }));
+
+    describe('context()', () => {
+        it('should record frames from the outermost step to the innermost', () => {
+            const result = loadUser(42).context('loading user 42').context('saving order');
+
+            expect(result.getContext()).toEqual(['saving order', 'loading user 42']);
+            expect(formatContext(result)).toBe('saving order → loading user 42 → user 42 not found');
+        });
+
+        it('should return a new Either and leave the original and its error untouched', () => {
+            const result = loadUser(42);
+            const error = result.getError();
+            const annotated = result.context('loading user 42');
+
+            expect(annotated).not.toBe(result);
+            expect(result.getContext()).toEqual([]);
+            expect(annotated.getError()).toBe(error);
+            expect(error).toBeInstanceOf(NotFoundError);
+            expect(Object.keys(error)).toEqual(Object.keys(loadUser(42).getError()));
+        });
+
+        it('should not share frames between results holding the same error instance', () => {
+            const SHARED = new NotFoundError({ id: 0, message: 'not found' });
+            const first = Either.Error(SHARED).context('request A');
+            const second = Either.Error(SHARED).context('request B');
+
+            expect(first.getContext()).toEqual(['request A']);
+            expect(second.getContext()).toEqual(['request B']);
+        });
+
+        it('should support primitive errors', () => {
+            const result = Either.Error('timeout').context('calling billing');
+
+            expect(result.getError()).toBe('timeout');
+            expect(formatContext(result)).toBe('calling billing → timeout');
+        });
+
+        it('should keep frames through operations that pass the error along', () => {
+            const result = loadUser(1)
+                .context('loading user 1')
+                .map(name => name.toUpperCase())
+                .flatMap(name => Either.Ok(name.length))
+                .zip(Either.Ok(true))
+                .mapError(error => error.message)
+                .context('rendering profile');
+
+            expect(result.getContext()).toEqual(['rendering profile', 'loading user 1']);
+            expect(sequence([Either.Ok(1), result.map(() => 2)]).getContext()).toEqual(['rendering profile', 'loading user 1']);
+        });
+
+        it('should leave Ok untouched', () => {
+            const ok = Either.Ok(1);
+
+            expect(ok.context('never recorded')).toBe(ok);
+            expect(ok.getContext()).toEqual([]);
+            expect(formatContext(ok)).toBe('');
+        });
+    });
+
+    describe('Chain entry points', () => {
+        it('should keep frames of an Error yielded in Either.gen and Either.genAsync', async () => {
+            const result = Either.gen(function* () {
+                return yield* loadUser(42).context('loading user 42');
+            });
+            const asyncResult = await Either.genAsync(async function* () {
+                return yield* await Promise.resolve(loadUser(42).context('loading user 42'));
+            });
+
+            expect(formatContext(result)).toBe('loading user 42 → user 42 not found');
+            expect(asyncResult.getContext()).toEqual(['loading user 42']);
+        });
+
+        it('should keep frames of the failing task in traverseAsync and sequenceAsync', async () => {
+            const traversed = await traverseAsync([7], async id => loadUser(id).context(`loading user ${id}`));
+            const sequenced = await sequenceAsync([async () => loadUser(8).context('loading user 8')]);
+
+            expect(traversed.getContext()).toEqual(['loading user 7']);
+            expect(sequenced.getContext()).toEqual(['loading user 8']);
+        });
+
+        it('should keep frames of a failed acquire in bracket', () => {
+            const release = jest.fn();
+            const result = bracket(() => loadUser(9).context('acquiring user 9'), name => Either.Ok(name), release);
+
+            expect(result.getContext()).toEqual(['acquiring user 9']);
+            expect(release).not.toHaveBeenCalled();
+        });
+    });
+
+    describe('withContext()', () => {
+        it('should build the frame lazily from the error', () => {
+            const build = jest.fn((error: NotFoundError) => `loading user ${error.id}`);
+
+            Either.Ok('Ada').withContext(build);
+            expect(build).not.toHaveBeenCalled();
+
+            expect(loadUser(7).withContext(build).getContext()).toEqual(['loading user 7']);
+        });
+    });
+
+    describe('EitherAsync', () => {
+        it('should add frames once the Either is resolved and keep them through the chain', async () => {
+            const result = await EitherAsync.from(safeAsync({
+                fn: () => Promise.reject(new Error('connection refused')),
+                ErrClass: DbError
+            }))
+                .context('loading user 42')
+                .flatMap(() => EitherAsync.Ok('saved'))
+                .mapError(async error => error)
+                .withContext(() => 'saving order');
+
+            expect(formatContext(result, ' / ')).toBe('saving order / loading user 42 / connection refused');
+        });
+    });
+});
@@ -0,0 +1,121 @@
+import { Either, RetryError, collectAllErrors, formatError, safeSync } from '../src';
+
+describe('formatError()', () => {
+    class DbError extends Error {
+        constructor(message?: string, options?: { cause?: unknown }) {
+            super(message);
+            this.name = 'DbError';
+            if (options) Object.defineProperty(this, 'cause', { value: options.cause });
+        }
+    }
+
+    const AggregateErrorClass = (globalThis as unknown as {
+        AggregateError: new (errors: unknown[], message: string) => Error;
+    }).AggregateError;
+
+    const connectionRefused = (): Either<never, DbError> => safeSync({
+        fn: () => {
+            throw new Error('connection refused');
+        },
+        ErrClass: DbError
+    });
+
+    it('should render an error with its context and cause chain as indented text', () => {
+        const result = connectionRefused().context('loading user 42').context('saving order');
+
+        expect(formatError(result)).toBe([
+            'DbError: connection refused',
+            '  context: saving order → loading user 42',
+            '  caused by: Error: connection refused'
+        ].join('\n'));
+    });
+
+    it('should render Ok as Ok', () => {
+        expect(formatError(Either.Ok(1))).toBe('Ok');
+        expect(formatError(Either.Ok(1), { format: 'json' })).toBe('{"ok":true}');
+    });
+
+    it('should list arrays from collectAllErrors', () => {
+        const result = collectAllErrors<number, string | TypeError>([
+            Either.Ok(1),
+            Either.Error('bad email'),
+            Either.Error(new TypeError('bad age'))
+        ]);
+
+        expect(formatError(result)).toBe([
+            '2 errors',
+            '  - bad email',
+            '  - TypeError: bad age'
+        ].join('\n'));
+    });
+
+    it('should walk AggregateError and RetryError errors', () => {
+        const aggregate = new AggregateErrorClass([new Error('replica 1 down'), new Error('replica 2 down')], 'all replicas failed');
+        const retry = new RetryError({ errors: [aggregate], message: 'Gave up after 1 attempt' });
+
+        expect(formatError(Either.Error(retry))).toBe([
+            'RetryError: Gave up after 1 attempt',
+            '  - AggregateError: all replicas failed',
+            '    - Error: replica 1 down',
+            '    - Error: replica 2 down'
+        ].join('\n'));
+    });
+
+    it('should inspect non-Error payloads', () => {
+        const text = formatError(Either.Error({ code: 'E_QUOTA', limit: 10 }));
+
+        expect(text).toContain('E_QUOTA');
+        expect(text).toContain('10');
+        expect(formatError(Either.Error(404))).toBe('404');
+    });
+
+    it('should include stack frames on demand', () => {
+        const text = formatError(Either.Error(new Error('boom')), { includeStack: true });
+        const [head, ...frames] = text.split('\n');
+
+        expect(head).toBe('Error: boom');
+        expect(frames.length).toBeGreaterThan(0);
+        frames.forEach(frame => expect(frame).toMatch(/^ {2}at /));
+        expect(formatError(Either.Error(new Error('boom')))).toBe('Error: boom');
+    });
+
+    it('should stop at maxCauseDepth and mark the report as truncated', () => {
+        const root = new DbError('level 0', { cause: new DbError('level 1', { cause: new Error('level 2') }) });
+
+        expect(formatError(Either.Error(root), { maxCauseDepth: 1 })).toBe([
+            'DbError: level 0',
+            '  caused by: DbError: level 1',
+            '    … (truncated)'
+        ].join('\n'));
+        expect(JSON.parse(formatError(Either.Error(root), { format: 'json', maxCauseDepth: 0 })).error)
+            .toEqual({ name: 'DbError', message: 'level 0', truncated: true });
+    });
+
+    it('should stop on cause cycles', () => {
+        const error = new DbError('loop');
+        Object.defineProperty(error, 'cause', { value: error });
+
+        expect(formatError(Either.Error(error))).toBe('DbError: loop\n  caused by: [Circular DbError]');
+    });
+
+    it('should produce stable JSON', () => {
+        const result = connectionRefused().context('loading user 42');
+        const json = formatError(result, { format: 'json' });
+
+        expect(json).toBe(JSON.stringify({
+            ok: false,
+            error: {
+                name: 'DbError',
+                message: 'connection refused',
+                context: ['loading user 42'],
+                cause: { name: 'Error', message: 'connection refused' }
+            }
+        }));
+        expect(formatError(result, { format: 'json' })).toBe(json);
+    });
+
+    it('should include stacks in JSON on demand', () => {
+        const report = JSON.parse(formatError(Either.Error(new Error('boom')), { format: 'json', includeStack: true }));
+        expect(report.error.stack).toContain('Error: boom');
+    });
+});
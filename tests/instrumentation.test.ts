@@ -0,0 +1,243 @@
+import {
+    Either,
+    EitherAsync,
+    InMemoryRecorder,
+    InstrumentationRegistry,
+    MetricsAggregator,
+    SpanEndEvent,
+    TaggedError,
+    instrument,
+    instrumentationRegistry
+} from '../src';
+
+describe('Instrumentation', () => {
+    class NotFoundError extends TaggedError('NotFound')<{ id: string }> {}
+
+    const findUser = (id: string): Either<string, NotFoundError> =>
+        id === '42' ? Either.Ok('Ada') : Either.Error(new NotFoundError({ id }));
+
+    const span = (name: string, outcome: SpanEndEvent['outcome'], durationMs: number, errorClass?: string): SpanEndEvent => ({
+        type: 'span-end',
+        name,
+        spanId: 1,
+        startTime: 0,
+        outcome,
+        durationMs,
+        ...(errorClass !== undefined && { errorClass })
+    });
+
+    let registry: InstrumentationRegistry;
+    let recorder: InMemoryRecorder;
+
+    beforeEach(() => {
+        recorder = new InMemoryRecorder();
+        registry = new InstrumentationRegistry().register(recorder);
+    });
+
+    describe('instrument()', () => {
+        it('should emit span-start and span-end around a synchronous call', () => {
+            const getUser = instrument('users.find', findUser, { registry });
+
+            expect(getUser('42').getValue()).toBe('Ada');
+            expect(recorder.events.map(event => event.type)).toEqual(['span-start', 'span-end']);
+
+            const [start, end] = recorder.events;
+            expect(end.spanId).toBe(start.spanId);
+            expect(end).toMatchObject({ name: 'users.find', outcome: 'ok', startTime: start.startTime });
+            expect((end as SpanEndEvent).durationMs).toBeGreaterThanOrEqual(0);
+            expect(end).not.toHaveProperty('errorClass');
+        });
+
+        it('should report Error values with their class', () => {
+            const getUser = instrument('users.find', findUser, { registry });
+            const result = getUser('7');
+
+            const [end] = recorder.spans('users.find');
+            expect(end.outcome).toBe('error');
+            expect(end.errorClass).toBe('NotFoundError');
+            expect(end.error).toBe(result.getError());
+        });
+
+        it('should give each call its own span id', () => {
+            const getUser = instrument('users.find', findUser, { registry });
+            getUser('42');
+            getUser('42');
+
+            const [first, second] = recorder.spans();
+            expect(first.spanId).not.toBe(second.spanId);
+        });
+
+        it('should end the span when a Promise resolves', async () => {
+            const getUser = instrument('users.fetch', async (id: string) => findUser(id), { registry });
+            const pending = getUser('7');
+
+            expect(recorder.spans()).toHaveLength(0);
+            expect((await pending).isError()).toBe(true);
+            expect(recorder.spans('users.fetch')[0]).toMatchObject({ outcome: 'error', errorClass: 'NotFoundError' });
+        });
+
+        it('should keep EitherAsync results chainable', async () => {
+            const getUser = instrument('users.load', (id: string) => EitherAsync.from(findUser(id)), { registry });
+            const result = getUser('42');
+
+            expect(result).toBeInstanceOf(EitherAsync);
+            expect((await result.map(name => name.toUpperCase())).getValue()).toBe('ADA');
+            expect(recorder.spans('users.load')[0].outcome).toBe('ok');
+        });
+
+        it('should report and rethrow exceptions and rejections', async () => {
+            const boom = new TypeError('boom');
+            const sync = instrument('sync', (): Either<number, string> => {
+                throw boom;
+            }, { registry });
+            const async = instrument('async', (): Promise<Either<number, string>> => Promise.reject(boom), { registry });
+
+            expect(() => sync()).toThrow(boom);
+            await expect(async()).rejects.toBe(boom);
+            expect(recorder.spans().map(end => [end.name, end.outcome, end.errorClass])).toEqual([
+                ['sync', 'throw', 'TypeError'],
+                ['async', 'throw', 'TypeError']
+            ]);
+        });
+
+        it('should forward this', () => {
+            const repo = {
+                name: 'Ada',
+                find: instrument('repo.find', function (this: { name: string }) {
+                    return Either.Ok(this.name);
+                }, { registry })
+            };
+
+            expect(repo.find().getValue()).toBe('Ada');
+        });
+
+        it('should use the shared registry by default', () => {
+            const shared = new InMemoryRecorder();
+            instrumentationRegistry.register(shared);
+            try {
+                instrument('users.find', findUser)('42');
+            } finally {
+                instrumentationRegistry.unregister(shared);
+            }
+
+            expect(shared.spans('users.find')).toHaveLength(1);
+            expect(recorder.events).toHaveLength(0);
+        });
+    });
+
+    describe('InstrumentationRegistry', () => {
+        it('should isolate the call from a failing listener', () => {
+            const warn = jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+            registry.register({
+                onSpanStart: () => {
+                    throw new Error('exporter down');
+                }
+            });
+
+            try {
+                expect(instrument('users.find', findUser, { registry })('42').getValue()).toBe('Ada');
+                expect(warn).toHaveBeenCalledWith('@byzobss/either-monad: instrumentation listener failed', expect.any(Error));
+                expect(recorder.spans()).toHaveLength(1);
+            } finally {
+                warn.mockRestore();
+            }
+        });
+
+        it('should stop notifying unregistered and cleared listeners', () => {
+            const getUser = instrument('users.find', findUser, { registry });
+            registry.unregister(recorder);
+            getUser('42');
+            expect(recorder.events).toHaveLength(0);
+
+            registry.register(recorder).clear();
+            getUser('42');
+            expect(recorder.events).toHaveLength(0);
+        });
+    });
+
+    describe('InMemoryRecorder', () => {
+        it('should filter spans by name and clear events', () => {
+            instrument('a', findUser, { registry })('42');
+            instrument('b', findUser, { registry })('42');
+
+            expect(recorder.spans('b').map(end => end.name)).toEqual(['b']);
+            recorder.clear();
+            expect(recorder.events).toEqual([]);
+        });
+    });
+
+    describe('MetricsAggregator', () => {
+        it('should count outcomes and error classes per operation', () => {
+            const metrics = new MetricsAggregator();
+            metrics.onSpanEnd(span('db.get', 'ok', 3));
+            metrics.onSpanEnd(span('db.get', 'error', 7, 'NotFoundError'));
+            metrics.onSpanEnd(span('db.get', 'throw', 40, 'TypeError'));
+            metrics.onSpanEnd(span('db.put', 'ok', 1));
+
+            const snapshot = metrics.snapshot();
+            expect(snapshot['db.get']).toMatchObject({
+                ok: 1,
+                error: 1,
+                throw: 1,
+                errorClasses: { NotFoundError: 1, TypeError: 1 }
+            });
+            expect(snapshot['db.put'].ok).toBe(1);
+        });
+
+        it('should build a cumulative duration histogram', () => {
+            const metrics = new MetricsAggregator({ buckets: [100, 10] });
+            [4, 10, 50, 500].forEach(ms => metrics.onSpanEnd(span('db.get', 'ok', ms)));
+
+            expect(metrics.snapshot()['db.get'].duration).toEqual({
+                count: 4,
+                sum: 564,
+                min: 4,
+                max: 500,
+                buckets: [{ le: 10, count: 2 }, { le: 100, count: 3 }]
+            });
+        });
+
+        it('should return snapshots that do not change with later events', () => {
+            const metrics = new MetricsAggregator();
+            metrics.onSpanEnd(span('db.get', 'ok', 1));
+            const before = metrics.snapshot();
+            metrics.onSpanEnd(span('db.get', 'ok', 1));
+
+            expect(before['db.get'].ok).toBe(1);
+            expect(before['db.get'].duration.buckets[0].count).toBe(1);
+        });
+
+        it('should render the Prometheus text format', () => {
+            const metrics = new MetricsAggregator({ buckets: [10] });
+            metrics.onSpanEnd(span('db."get"', 'ok', 4));
+            metrics.onSpanEnd(span('db."get"', 'error', 20, 'NotFoundError'));
+
+            expect(metrics.toPrometheus().split('\n')).toEqual([
+                '# HELP either_operation_total Instrumented calls by outcome',
+                '# TYPE either_operation_total counter',
+                'either_operation_total{operation="db.\\"get\\"",outcome="ok"} 1',
+                'either_operation_total{operation="db.\\"get\\"",outcome="error"} 1',
+                'either_operation_total{operation="db.\\"get\\"",outcome="throw"} 0',
+                '# HELP either_operation_duration_ms Duration of instrumented calls in milliseconds',
+                '# TYPE either_operation_duration_ms histogram',
+                'either_operation_duration_ms_bucket{operation="db.\\"get\\"",le="10"} 1',
+                'either_operation_duration_ms_bucket{operation="db.\\"get\\"",le="+Inf"} 2',
+                'either_operation_duration_ms_sum{operation="db.\\"get\\""} 24',
+                'either_operation_duration_ms_count{operation="db.\\"get\\""} 2',
+                ''
+            ]);
+        });
+
+        it('should aggregate instrumented calls once registered and forget them on reset', () => {
+            const metrics = new MetricsAggregator();
+            registry.register(metrics);
+            const getUser = instrument('users.find', findUser, { registry });
+            getUser('42');
+            getUser('7');
+
+            expect(metrics.snapshot()['users.find']).toMatchObject({ ok: 1, error: 1, errorClasses: { NotFoundError: 1 } });
+            metrics.reset();
+            expect(metrics.snapshot()).toEqual({});
+        });
+    });
+});
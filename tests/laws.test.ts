@@ -0,0 +1,109 @@
+import { Either, Gen, LawViolationError, Random, checkLaws } from '../src';
+
+describe('Law checking', () => {
+    describe('Random', () => {
+        it('should produce the same sequence for the same seed', () => {
+            const a = new Random(42);
+            const b = new Random(42);
+            const first = [a.next(), a.next(), a.next()];
+
+            expect([b.next(), b.next(), b.next()]).toEqual(first);
+            expect(first.every(n => n >= 0 && n < 1)).toBe(true);
+            expect(new Random(43).next()).not.toBe(first[0]);
+        });
+
+        it('should generate integers within inclusive bounds', () => {
+            const random = new Random(7);
+            const values = Array.from({ length: 200 }, () => random.int(1, 3));
+
+            expect(new Set(values)).toEqual(new Set([1, 2, 3]));
+        });
+    });
+
+    describe('Gen', () => {
+        it('should be reproducible from a seed', () => {
+            const gen = Gen.either(Gen.int(), Gen.string());
+            expect(gen.sample(10, 5).map(e => e.hash())).toEqual(gen.sample(10, 5).map(e => e.hash()));
+        });
+
+        it('should generate both Ok and Error values', () => {
+            const sample = Gen.either(Gen.int(), Gen.string()).sample(50);
+            expect(sample.some(e => e.isOk())).toBe(true);
+            expect(sample.some(e => e.isError())).toBe(true);
+        });
+
+        it('should support arrays, oneOf, constant and map', () => {
+            const sample = Gen.array(Gen.oneOf('a', 'b').map(s => s.toUpperCase()), 3).sample(20);
+            expect(sample.every(items => items.length <= 3 && items.every(item => item === 'A' || item === 'B'))).toBe(true);
+            expect(Gen.constant(1).sample(3)).toEqual([1, 1, 1]);
+        });
+
+        it('should generate pure functions', () => {
+            const fn = Gen.fn<number, number>(Gen.int()).generate(new Random(1));
+            expect(fn(10)).toBe(fn(10));
+        });
+    });
+
+    describe('checkLaws()', () => {
+        it('should confirm the laws for map, flatMap and mapError', () => {
+            const result = checkLaws({ ok: Gen.int(), error: Gen.string(), seed: 1234 });
+
+            expect(result.isOk()).toBe(true);
+            expect(result.getValue()).toEqual(expect.objectContaining({ seed: 1234, runs: 100 }));
+            expect(result.getValue().laws).toHaveLength(8);
+        });
+
+        it('should check user-supplied functions', () => {
+            const halve = (n: number): Either<number, string> => (n % 2 === 0 ? Either.Ok(n / 2) : Either.Error('odd'));
+            const result = checkLaws({
+                ok: Gen.int(),
+                error: Gen.oneOf('odd', 'negative'),
+                k: halve,
+                h: n => (n < 0 ? Either.Error('negative') : Either.Ok(n)),
+                f: n => n + 1,
+                g: n => n * 2,
+                seed: 9
+            });
+
+            expect(result.isOk()).toBe(true);
+        });
+
+        it('should report a violation for an unlawful implementation', () => {
+            const result = checkLaws<number, string>({
+                ok: Gen.int(),
+                error: Gen.string(),
+                seed: 77,
+                laws: ['functor.identity', 'functor.composition'],
+                map: (either, fn) => either.map(value => fn(value) + 1)
+            });
+
+            expect(result.isError()).toBe(true);
+            const violation = result.getError();
+            expect(violation).toBeInstanceOf(LawViolationError);
+            expect(violation.law).toBe('functor.identity');
+            expect(violation.seed).toBe(77);
+            expect(violation.message).toContain('seed 77');
+        });
+
+        it('should reproduce the same failure from the same seed', () => {
+            const options = {
+                ok: Gen.int(0, 5),
+                error: Gen.string(),
+                laws: ['monad.leftIdentity' as const],
+                flatMap: (either: Either<number, string>, fn: (n: number) => Either<number, string>) =>
+                    either.flatMap(n => (n === 3 ? Either.Ok(n) : fn(n)))
+            };
+            const first = checkLaws({ ...options, seed: 3 });
+            const second = checkLaws({ ...options, seed: 3 });
+
+            expect(first.isError()).toBe(true);
+            expect(second.getError().run).toBe(first.getError().run);
+            expect(second.getError().input).toBe(first.getError().input);
+        });
+
+        it('should report the generated seed when none is given', () => {
+            const result = checkLaws({ ok: Gen.int(), error: Gen.string(), runs: 5 });
+            expect(typeof result.getValue().seed).toBe('number');
+        });
+    });
+});
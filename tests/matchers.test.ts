@@ -0,0 +1,82 @@
+import { Either, EitherAsync, TaggedError } from '../src';
+import { eitherMatchers } from '../src/matchers';
+
+expect.extend(eitherMatchers);
+
+describe('Either matchers', () => {
+    class NotFoundError extends TaggedError('NotFound')<{ id: number }> {}
+
+    describe('toBeOk() and toBeError()', () => {
+        it('should pass for the matching state', () => {
+            expect(Either.Ok(1)).toBeOk();
+            expect(Either.Error('boom')).toBeError();
+            expect(Either.Ok(1)).not.toBeError();
+            expect(Either.Error('boom')).not.toBeOk();
+        });
+
+        it('should print the actual Either on failure', () => {
+            expect(() => expect(Either.Error(new Error('connection refused'))).toBeOk())
+                .toThrow(/Expected: Ok\n.*Received: Error\(.*connection refused/s);
+            expect(() => expect(Either.Ok({ id: 7 })).toBeError())
+                .toThrow(/Received: Ok\(.*"id": 7/s);
+        });
+
+        it('should reject values that are not Eithers', () => {
+            expect(() => expect(42).toBeOk()).toThrow(/Received value must be an Either/);
+        });
+    });
+
+    describe('toBeOkWith()', () => {
+        it('should compare the value with recursive equality', () => {
+            expect(Either.Ok({ id: 1, tags: ['a'] })).toBeOkWith({ id: 1, tags: ['a'] });
+            expect(Either.Ok({ id: 1, name: 'Ada' })).toBeOkWith(expect.objectContaining({ id: 1 }));
+            expect(Either.Ok(1)).not.toBeOkWith(2);
+        });
+
+        it('should fail for Error values', () => {
+            expect(() => expect(Either.Error(1)).toBeOkWith(1)).toThrow(/Expected: Ok\(1\)/);
+        });
+    });
+
+    describe('toBeErrorWith()', () => {
+        it('should match Error instances by name and message', () => {
+            expect(Either.Error(new Error('boom'))).toBeErrorWith(new Error('boom'));
+            expect(Either.Error(new TypeError('boom'))).not.toBeErrorWith(new Error('boom'));
+        });
+
+        it('should match messages against a RegExp', () => {
+            expect(Either.Error(new Error('user 42 not found'))).toBeErrorWith(/not found/);
+            expect(Either.Error('timeout')).toBeErrorWith(/time/);
+        });
+
+        it('should support plain values and asymmetric matchers', () => {
+            expect(Either.Error({ code: 'E1' })).toBeErrorWith({ code: 'E1' });
+            expect(Either.Error(new NotFoundError({ id: 3 }))).toBeErrorWith(expect.objectContaining({ id: 3 }));
+        });
+    });
+
+    describe('toBeErrorInstanceOf()', () => {
+        it('should check the error class', () => {
+            expect(Either.Error(new NotFoundError({ id: 1 }))).toBeErrorInstanceOf(NotFoundError);
+            expect(Either.Error(new Error('x'))).not.toBeErrorInstanceOf(NotFoundError);
+        });
+
+        it('should name the class on failure', () => {
+            expect(() => expect(Either.Error(new Error('x'))).toBeErrorInstanceOf(NotFoundError))
+                .toThrow(/instance of NotFoundError/);
+        });
+    });
+
+    describe('async support', () => {
+        it('should work with resolves', async () => {
+            await expect(Promise.resolve(Either.Ok(5))).resolves.toBeOkWith(5);
+            await expect(Promise.resolve(Either.Error('x'))).resolves.toBeError();
+        });
+
+        it('should await promises and EitherAsync directly', async () => {
+            await expect(EitherAsync.Ok(1)).toBeOkWith(1);
+            await expect(Promise.resolve(Either.Error(new Error('boom')))).toBeErrorWith(/boom/);
+            await expect(expect(EitherAsync.Ok(1)).toBeError()).rejects.toThrow(/Received: Ok\(1\)/);
+        });
+    });
+});
@@ -0,0 +1,105 @@
+import { Either, Option } from '../src';
+
+describe('Option', () => {
+    describe('Constructors', () => {
+        it('should create Some instance', () => {
+            const option = Option.Some(42);
+            expect(option.isSome()).toBe(true);
+            expect(option.isNone()).toBe(false);
+            expect(option.getValue()).toBe(42);
+        });
+
+        it('should create None instance', () => {
+            const option = Option.None();
+            expect(option.isNone()).toBe(true);
+            expect(() => option.getValue()).toThrow('Cannot access value in a None instance');
+        });
+
+        it('should create Option from nullable values', () => {
+            expect(Option.fromNullable(0).getValue()).toBe(0);
+            expect(Option.fromNullable('').getValue()).toBe('');
+            expect(Option.fromNullable(null).isNone()).toBe(true);
+            expect(Option.fromNullable(undefined).isNone()).toBe(true);
+        });
+
+        it('should narrow None to Option<never> with isNone', () => {
+            const lengthOf = (option: Option<string>): Option<number> => {
+                if (option.isNone()) {
+                    return option;
+                }
+                return Option.Some(option.getValue().length);
+            };
+
+            expect(lengthOf(Option.None()).isNone()).toBe(true);
+            expect(lengthOf(Option.Some('abc')).getValue()).toBe(3);
+        });
+    });
+
+    describe('Transformation Methods', () => {
+        it('should map Some and skip None', () => {
+            const fn = jest.fn((x: number) => x * 2);
+
+            expect(Option.Some(5).map(fn).getValue()).toBe(10);
+            expect(Option.fromNullable<number>(null).map(fn).isNone()).toBe(true);
+            expect(fn).toHaveBeenCalledTimes(1);
+        });
+
+        it('should flatMap Option-returning functions', () => {
+            const user = { address: { city: 'Bogotá' as string | null } };
+            const city = Option.Some(user)
+                .flatMap(u => Option.fromNullable(u.address))
+                .flatMap(a => Option.fromNullable(a.city));
+
+            expect(city.getValue()).toBe('Bogotá');
+            expect(Option.Some({ city: null }).flatMap(a => Option.fromNullable(a.city)).isNone()).toBe(true);
+        });
+
+        it('should filter values with a predicate', () => {
+            expect(Option.Some(5).filter(x => x > 3).getValue()).toBe(5);
+            expect(Option.Some(1).filter(x => x > 3).isNone()).toBe(true);
+            expect(Option.None().filter(() => true).isNone()).toBe(true);
+        });
+    });
+
+    describe('Extraction Methods', () => {
+        it('should fold Some and None', () => {
+            const handlers = { fnSome: (x: number) => `some: ${x}`, fnNone: () => 'none' };
+
+            expect(Option.Some(1).fold(handlers)).toBe('some: 1');
+            expect(Option.fromNullable<number>(undefined).fold(handlers)).toBe('none');
+        });
+
+        it('should return default value with getOrElse', () => {
+            expect(Option.Some('value').getOrElse('default')).toBe('value');
+            expect(Option.fromNullable<string>(null).getOrElse('default')).toBe('default');
+        });
+
+        it('should convert to optional value', () => {
+            expect(Option.Some(1).toOptional()).toBe(1);
+            expect(Option.None().toOptional()).toBeUndefined();
+        });
+    });
+
+    describe('Either Interop', () => {
+        it('should convert Some to Ok without calling onNone', () => {
+            const onNone = jest.fn(() => new Error('missing'));
+            const result = Option.Some(42).toEither(onNone);
+
+            expect(onNone).not.toHaveBeenCalled();
+            expect(result.getValue()).toBe(42);
+        });
+
+        it('should convert None to Error with a custom error', () => {
+            class NotFoundError extends Error {}
+            const result: Either<string, NotFoundError> = Option.fromNullable<string>(null)
+                .toEither(() => new NotFoundError('User not found'));
+
+            expect(result.getError()).toBeInstanceOf(NotFoundError);
+        });
+
+        it('should round-trip through Either', () => {
+            expect(Option.Some(1).toEither(() => 'missing').toOption().getValue()).toBe(1);
+            expect(Option.None().toEither(() => 'missing').toOption().isNone()).toBe(true);
+        });
+    });
+});
@@ -0,0 +1,92 @@
+import { Either, filter, flatMap, flow, fold, map, mapError, pipe, recover, tap } from '../src';
+
+describe('pipe, flow and pointfree operators', () => {
+    class ParseError extends Error {}
+    class SaveError extends Error {}
+
+    const parse = (input: string): Either<number, ParseError> => {
+        const value = Number(input);
+        return Number.isNaN(value) ? Either.Error(new ParseError(`not a number: ${input}`)) : Either.Ok(value);
+    };
+    const save = (value: number): Either<{ id: number; value: number }, SaveError> =>
+        value > 100 ? Either.Error(new SaveError('too large')) : Either.Ok({ id: 1, value });
+
+    describe('pipe()', () => {
+        it('should return the value when no functions are given', () => {
+            expect(pipe(5)).toBe(5);
+        });
+
+        it('should apply functions left to right', () => {
+            expect(pipe(2, n => n + 1, n => n * 10, String)).toBe('30');
+        });
+
+        it('should chain operators with inferred types', () => {
+            const result: Either<{ id: number; value: number }, ParseError | SaveError> = pipe(
+                parse('21'),
+                map(n => n * 2),
+                flatMap(save)
+            );
+
+            expect(result.getValue()).toEqual({ id: 1, value: 42 });
+            expect(pipe(parse('x'), map(n => n * 2), flatMap(save)).getError()).toBeInstanceOf(ParseError);
+            expect(pipe(parse('500'), flatMap(save)).getError()).toBeInstanceOf(SaveError);
+        });
+
+        it('should infer types across 20 steps', () => {
+            const inc = (n: number) => n + 1;
+            const result: number = pipe(0, inc, inc, inc, inc, inc, inc, inc, inc, inc, inc,
+                inc, inc, inc, inc, inc, inc, inc, inc, inc, inc);
+
+            expect(result).toBe(20);
+        });
+    });
+
+    describe('flow()', () => {
+        it('should compose a reusable function with the first function\'s parameters', () => {
+            const handle = flow(
+                (input: string, scale: number) => parse(input).map(n => n * scale),
+                flatMap(save),
+                mapError(error => error.message)
+            );
+            const ok: Either<{ id: number; value: number }, string> = handle('5', 3);
+
+            expect(ok.getValue()).toEqual({ id: 1, value: 15 });
+            expect(handle('x', 1).getError()).toBe('not a number: x');
+        });
+    });
+
+    describe('operators', () => {
+        it('should filter with a widened error type', () => {
+            const positive = filter((n: number) => n > 0, 'not positive' as const);
+
+            expect(pipe(Either.Ok(3), positive).getValue()).toBe(3);
+            expect(pipe(Either.Ok(-3), positive).getError()).toBe('not positive');
+        });
+
+        it('should tap without changing the Either', () => {
+            const seen: number[] = [];
+            const result = pipe(Either.Ok(7), tap(n => seen.push(n)));
+
+            expect(result.getValue()).toBe(7);
+            expect(seen).toEqual([7]);
+        });
+
+        it('should recover and fold', () => {
+            const recovered = pipe(parse('x'), recover(() => 0));
+            const text = pipe(
+                parse('4'),
+                fold({ fnOk: n => `ok ${n}`, fnError: error => `error ${error.message}` })
+            );
+
+            expect(recovered.getValue()).toBe(0);
+            expect(text).toBe('ok 4');
+        });
+
+        it('should behave like the class methods', () => {
+            const input = Either.Ok<number>(2);
+
+            expect(pipe(input, map(n => n + 1)).equals(input.map(n => n + 1))).toBe(true);
+            expect(pipe(Either.Error<string>('e'), mapError(e => e.length)).getError()).toBe(1);
+        });
+    });
+});
@@ -0,0 +1,139 @@
+import { Either, EitherAsync, ReaderEither, ReaderEitherAsync } from '../src';
+
+interface User {
+    id: string;
+    email: string;
+}
+
+interface UserRepo {
+    find(id: string): Either<User, string>;
+}
+
+interface Mailer {
+    send(to: string): Either<string, string>;
+}
+
+interface Logger {
+    lines: string[];
+}
+
+describe('ReaderEither', () => {
+    const users: UserRepo = {
+        find: id => (id === '1' ? Either.Ok({ id, email: 'ada@test' }) : Either.Error(`user ${id} not found`))
+    };
+    const mailer: Mailer = { send: to => Either.Ok(`sent to ${to}`) };
+
+    const findUser = (id: string) => ReaderEither.from(({ users }: { users: UserRepo }) => users.find(id));
+    const sendWelcome = (email: string) => ReaderEither.from(({ mailer }: { mailer: Mailer }) => mailer.send(email));
+    const log = (line: string) => ReaderEither.asks(({ logger }: { logger: Logger }) => logger.lines.push(line));
+
+    describe('composition', () => {
+        it('should intersect environments and run with all dependencies', () => {
+            const program = findUser('1').flatMap(user => sendWelcome(user.email));
+            const typed: ReaderEither<{ users: UserRepo } & { mailer: Mailer }, string, string> = program;
+
+            expect(typed.run({ users, mailer }).getValue()).toBe('sent to ada@test');
+        });
+
+        it('should short-circuit on errors', () => {
+            const send = jest.fn(mailer.send);
+            const result = findUser('2').flatMap(user => sendWelcome(user.email)).run({ users, mailer: { send } });
+
+            expect(result.getError()).toBe('user 2 not found');
+            expect(send).not.toHaveBeenCalled();
+        });
+
+        it('should accept plain Eithers in flatMap', () => {
+            const result = findUser('1')
+                .flatMap(user => (user.email.includes('@') ? Either.Ok(user.email) : Either.Error(404)))
+                .run({ users });
+
+            expect(result.getValue()).toBe('ada@test');
+        });
+
+        it('should map values and errors', () => {
+            expect(findUser('1').map(user => user.id).run({ users }).getValue()).toBe('1');
+            expect(findUser('9').mapError(message => message.length).run({ users }).getError()).toBe(16);
+        });
+    });
+
+    describe('environment access', () => {
+        it('should read the environment with ask and asks', () => {
+            expect(ReaderEither.ask<{ region: string }>().run({ region: 'eu' }).getValue()).toEqual({ region: 'eu' });
+
+            const logger: Logger = { lines: [] };
+            log('hello').run({ logger });
+            expect(logger.lines).toEqual(['hello']);
+        });
+
+        it('should adapt the environment with local', () => {
+            const program = findUser('1').local((env: { db: UserRepo }) => ({ users: env.db }));
+
+            expect(program.run({ db: users }).getValue().email).toBe('ada@test');
+        });
+
+        it('should provide part of the environment up front', () => {
+            const program = findUser('1').flatMap(user => sendWelcome(user.email)).provide({ users });
+            const remaining: ReaderEither<{ mailer: Mailer }, string, string> = program;
+
+            expect(remaining.run({ mailer }).getValue()).toBe('sent to ada@test');
+            expect(remaining.provide({ mailer }).run().getValue()).toBe('sent to ada@test');
+        });
+
+        it('should run environment-free computations without arguments', () => {
+            expect(ReaderEither.Ok(1).run().getValue()).toBe(1);
+            expect(ReaderEither.Error('e').run().getError()).toBe('e');
+            expect(ReaderEither.fromEither(Either.Ok(2)).run().getValue()).toBe(2);
+        });
+    });
+});
+
+describe('ReaderEitherAsync', () => {
+    interface Api {
+        getUser(id: string): Promise<User>;
+    }
+
+    const api: Api = {
+        getUser: async id => {
+            if (id !== '1') throw new Error('404');
+            return { id, email: 'ada@test' };
+        }
+    };
+    const fetchUser = (id: string) => ReaderEitherAsync.from(({ api }: { api: Api }) =>
+        EitherAsync.fromPromise(api.getUser(id), reason => (reason as Error).message));
+    const audit = (entry: string) => ReaderEitherAsync.asks(({ audit }: { audit: string[] }) => audit.push(entry));
+
+    it('should compose async steps with intersected environments', async () => {
+        const trail: string[] = [];
+        const program = fetchUser('1')
+            .flatMap(user => audit(`loaded ${user.id}`).map(() => user))
+            .map(async user => user.email.toUpperCase());
+
+        const result: Either<string, string> = await program.run({ api, audit: trail });
+
+        expect(result.getValue()).toBe('ADA@TEST');
+        expect(trail).toEqual(['loaded 1']);
+    });
+
+    it('should mix in sync ReaderEither steps and plain Eithers', async () => {
+        const checkDomain = (email: string) => ReaderEither.from(({ domain }: { domain: string }) =>
+            (email.endsWith(domain) ? Either.Ok(email) : Either.Error('wrong domain')));
+
+        const program = fetchUser('1')
+            .flatMap(user => checkDomain(user.email))
+            .flatMap(email => Promise.resolve(Either.Ok(email.length)));
+
+        expect((await program.run({ api, domain: '@test' })).getValue()).toBe(8);
+        expect((await program.run({ api, domain: '@prod' })).getError()).toBe('wrong domain');
+    });
+
+    it('should support mapError, local, provide and toAsync', async () => {
+        const program = fetchUser('2').mapError(message => `api: ${message}`);
+        const local = program.local((env: { client: Api }) => ({ api: env.client }));
+
+        expect((await local.run({ client: api })).getError()).toBe('api: 404');
+        expect((await program.provide({ api }).run()).getError()).toBe('api: 404');
+        expect((await ReaderEither.Ok(3).toAsync().run()).getValue()).toBe(3);
+        expect((await ReaderEitherAsync.ask<{ n: number }>().run({ n: 1 })).getValue()).toEqual({ n: 1 });
+    });
+});
@@ -0,0 +1,157 @@
+import { ConditionNotMetError, Either, RetryError, RetryPolicy, Scheduler, pollUntil, retry, safeAsync } from '../src';
+
+class FakeScheduler implements Scheduler {
+    public time = 0;
+    public readonly sleeps: number[] = [];
+
+    now(): number {
+        return this.time;
+    }
+
+    async sleep(ms: number): Promise<void> {
+        this.sleeps.push(ms);
+        this.time += ms;
+    }
+}
+
+describe('Retry', () => {
+    class ApiError extends Error {
+        constructor(message?: string, public readonly status = 503) {
+            super(message);
+        }
+    }
+
+    const failingTimes = (failures: number) => {
+        let calls = 0;
+        return jest.fn(() => safeAsync({
+            fn: async () => {
+                calls++;
+                if (calls <= failures) throw new Error(`failure ${calls}`);
+                return 'done';
+            },
+            onError: (_, { message }) => new ApiError(message)
+        }));
+    };
+
+    describe('retry()', () => {
+        it('should return the first success without retrying', async () => {
+            const scheduler = new FakeScheduler();
+            const fn = failingTimes(0);
+            const result = await retry(fn, { policy: RetryPolicy.fixed(100), scheduler });
+
+            expect(result.getValue()).toBe('done');
+            expect(fn).toHaveBeenCalledTimes(1);
+            expect(scheduler.sleeps).toEqual([]);
+        });
+
+        it('should retry with a fixed delay until success', async () => {
+            const scheduler = new FakeScheduler();
+            const fn = failingTimes(2);
+            const result = await retry(fn, { policy: RetryPolicy.fixed(100), scheduler });
+
+            expect(result.getValue()).toBe('done');
+            expect(fn).toHaveBeenCalledTimes(3);
+            expect(scheduler.sleeps).toEqual([100, 100]);
+        });
+
+        it('should report every attempt error when attempts are exhausted', async () => {
+            const scheduler = new FakeScheduler();
+            const result = await retry(failingTimes(10), { policy: RetryPolicy.fixed(10).maxAttempts(4), scheduler });
+
+            expect(result.isError()).toBe(true);
+            const error = result.getError();
+            expect(error).toBeInstanceOf(RetryError);
+            expect(error._tag).toBe('RetryError');
+            expect(error.message).toBe('Operation failed after 4 attempts');
+            expect(error.errors.map(e => (e as Error).message)).toEqual(['failure 1', 'failure 2', 'failure 3', 'failure 4']);
+        });
+
+        it('should grow delays exponentially up to the maximum delay', async () => {
+            const scheduler = new FakeScheduler();
+            await retry(failingTimes(10), {
+                policy: RetryPolicy.exponential(100, { factor: 3, maxDelayMs: 1000 }).maxAttempts(5),
+                scheduler
+            });
+
+            expect(scheduler.sleeps).toEqual([100, 300, 900, 1000]);
+        });
+
+        it('should apply jitter with the injected random source', async () => {
+            const scheduler = new FakeScheduler();
+            await retry(failingTimes(10), {
+                policy: RetryPolicy.fixed(100).withJitter(0.5, () => 0.5).maxAttempts(2),
+                scheduler
+            });
+
+            expect(scheduler.sleeps).toEqual([75]);
+        });
+
+        it('should stop when the next attempt would exceed the maximum elapsed time', async () => {
+            const scheduler = new FakeScheduler();
+            const fn = failingTimes(10);
+            const result = await retry(fn, {
+                policy: RetryPolicy.fixed(400).maxAttempts(Infinity).maxElapsed(1000),
+                scheduler
+            });
+
+            expect(fn).toHaveBeenCalledTimes(3);
+            expect(scheduler.sleeps).toEqual([400, 400]);
+            expect(result.getError().errors).toHaveLength(3);
+        });
+
+        it('should stop immediately for errors rejected by retryIf', async () => {
+            const scheduler = new FakeScheduler();
+            const fn = jest.fn(async () => Either.Error(new ApiError('Bad request', 400)));
+            const result = await retry(fn, {
+                policy: RetryPolicy.fixed(100).maxAttempts(5).retryIf((error: ApiError) => error.status >= 500),
+                scheduler
+            });
+
+            expect(fn).toHaveBeenCalledTimes(1);
+            expect(result.getError().errors).toEqual([expect.objectContaining({ status: 400 })]);
+        });
+
+        it('should pass the attempt number to the operation', async () => {
+            const attempts: number[] = [];
+            await retry(async attempt => {
+                attempts.push(attempt);
+                return Either.Error('failed');
+            }, { policy: RetryPolicy.fixed(0), scheduler: new FakeScheduler() });
+
+            expect(attempts).toEqual([1, 2, 3]);
+        });
+
+        it('should wait with real timers by default', async () => {
+            const result = await retry(failingTimes(1), { policy: RetryPolicy.fixed(1) });
+            expect(result.getValue()).toBe('done');
+        });
+    });
+
+    describe('pollUntil()', () => {
+        it('should poll until the predicate is satisfied', async () => {
+            const scheduler = new FakeScheduler();
+            let status = 0;
+            const result = await pollUntil(
+                async () => Either.Ok(++status),
+                value => value >= 3,
+                { policy: RetryPolicy.fixed(50).maxAttempts(10), scheduler }
+            );
+
+            expect(result.getValue()).toBe(3);
+            expect(scheduler.sleeps).toEqual([50, 50]);
+        });
+
+        it('should report unmet conditions and operation errors for every attempt', async () => {
+            const scheduler = new FakeScheduler();
+            let calls = 0;
+            const result = await pollUntil(
+                async (): Promise<Either<string, ApiError>> => ++calls === 2 ? Either.Error(new ApiError('Unavailable')) : Either.Ok('pending'),
+                value => value === 'done',
+                { policy: RetryPolicy.fixed(50).maxAttempts(3), scheduler }
+            );
+
+            const errors = result.getError().errors;
+            expect(errors.map(error => error instanceof ConditionNotMetError ? error._tag : error.message)).toEqual(['ConditionNotMet', 'Unavailable', 'ConditionNotMet']);
+        });
+    });
+});
@@ -0,0 +1,104 @@
+import { Either, TaggedError } from '../src';
+
+describe('TaggedError', () => {
+    class NotFoundError extends TaggedError('NotFound')<{ id: string }> {}
+    class TimeoutError extends TaggedError('Timeout')<{ ms: number }> {}
+    class UnknownError extends TaggedError('Unknown') {}
+
+    const load = (scenario: 'ok' | 'missing' | 'slow'): Either<string, NotFoundError | TimeoutError> => {
+        if (scenario === 'missing') return Either.Error(new NotFoundError({ id: '42' }));
+        if (scenario === 'slow') return Either.Error(new TimeoutError({ ms: 500, message: 'Request timed out' }));
+        return Either.Ok('user');
+    };
+
+    describe('TaggedError()', () => {
+        it('should create Error subclasses with a literal tag and extra fields', () => {
+            const error = new NotFoundError({ id: '42' });
+
+            expect(error).toBeInstanceOf(Error);
+            expect(error).toBeInstanceOf(NotFoundError);
+            expect(error._tag).toBe('NotFound');
+            expect(error.name).toBe('NotFound');
+            expect(error.id).toBe('42');
+            expect(error.message).toBe('NotFound');
+            expect(error.stack).toBeDefined();
+        });
+
+        it('should accept a custom message', () => {
+            const error = new TimeoutError({ ms: 500, message: 'Request timed out' });
+            expect(error.message).toBe('Request timed out');
+            expect(error.ms).toBe(500);
+        });
+
+        it('should allow omitting arguments when there are no extra fields', () => {
+            const error = new UnknownError();
+            expect(error._tag).toBe('Unknown');
+        });
+    });
+
+    describe('catchTag()', () => {
+        it('should handle the matching tag and narrow the error', () => {
+            const result = load('missing').catchTag('NotFound', error => Either.Ok(`guest-${error.id}`));
+
+            expect(result.isOk()).toBe(true);
+            expect(result.getValue()).toBe('guest-42');
+        });
+
+        it('should remove the handled tag from the error union', () => {
+            const result: Either<string | null, TimeoutError> = load('slow')
+                .catchTag('NotFound', () => Either.Ok(null));
+
+            expect(result.getError()).toBeInstanceOf(TimeoutError);
+        });
+
+        it('should leave Ok values untouched', () => {
+            const handler = jest.fn(() => Either.Ok('fallback'));
+            const result = load('ok').catchTag('Timeout', handler);
+
+            expect(handler).not.toHaveBeenCalled();
+            expect(result.getValue()).toBe('user');
+        });
+
+        it('should allow handlers to fail with a new error', () => {
+            const result = load('slow').catchTag('Timeout', error => Either.Error(new UnknownError({ message: `after ${error.ms}ms` })));
+            expect(result.getError().message).toBe('after 500ms');
+        });
+    });
+
+    describe('matchTag()', () => {
+        const handlers = {
+            NotFound: (error: NotFoundError) => `missing ${error.id}`,
+            Timeout: (error: TimeoutError) => `timed out after ${error.ms}ms`
+        };
+
+        it('should dispatch to the handler of the error tag', () => {
+            expect(load('missing').matchTag(handlers).getValue()).toBe('missing 42');
+            expect(load('slow').matchTag(handlers).getValue()).toBe('timed out after 500ms');
+        });
+
+        it('should keep Ok values', () => {
+            expect(load('ok').matchTag(handlers).getValue()).toBe('user');
+        });
+
+        it('should require a handler for every tag', () => {
+            // @ts-expect-error - missing Timeout handler
+            const result = load('missing').matchTag({ NotFound: () => 'missing' });
+            expect(result.getValue()).toBe('missing');
+        });
+
+        it('should use orElse for untagged errors', () => {
+            const result: Either<number, NotFoundError | Error> = Either.Error(new Error('boom'));
+            const handled = result.matchTag({
+                NotFound: () => 404,
+                orElse: (error) => error.message.length
+            });
+
+            expect(handled.getValue()).toBe(4);
+        });
+
+        it('should throw when no handler exists at runtime', () => {
+            const result = Either.Error(new UnknownError()) as unknown as Either<string, NotFoundError>;
+            expect(() => result.matchTag({ NotFound: () => 'missing' })).toThrow('No matchTag handler for error: Unknown');
+        });
+    });
+});
@@ -0,0 +1,151 @@
+import { Either, Validation } from '../src';
+
+describe('Validation', () => {
+    const validateName = (name: string): Validation<string, string> =>
+        name.trim().length > 0 ? Validation.Valid(name.trim()) : Validation.Invalid('Name is required');
+    const validateEmail = (email: string): Validation<string, string> =>
+        email.includes('@') ? Validation.Valid(email) : Validation.Invalid('Email must contain @');
+    const validateAge = (age: number): Validation<number, Error> =>
+        age >= 18 ? Validation.Valid(age) : Validation.Invalid(new Error('Must be 18 or older'));
+
+    describe('Constructors and Access', () => {
+        it('should create Valid instance', () => {
+            const result = Validation.Valid(42);
+
+            expect(result.isValid()).toBe(true);
+            expect(result.isInvalid()).toBe(false);
+            expect(result.getValue()).toBe(42);
+            expect(() => result.getErrors()).toThrow('Cannot access errors in a non-Invalid instance');
+        });
+
+        it('should create Invalid instance with one or more errors', () => {
+            const result = Validation.Invalid('first', 'second');
+
+            expect(result.isInvalid()).toBe(true);
+            expect(result.getErrors()).toEqual(['first', 'second']);
+            expect(() => result.getValue()).toThrow('Cannot access value in a non-Valid instance');
+        });
+
+        it('should fold over value and errors', () => {
+            const handlers = {
+                fnOk: (value: number) => `ok: ${value}`,
+                fnError: (errors: string[]) => `errors: ${errors.join(', ')}`
+            };
+
+            expect(Validation.Valid(1).fold(handlers)).toBe('ok: 1');
+            expect(Validation.Invalid('a', 'b').fold(handlers)).toBe('errors: a, b');
+        });
+
+        it('should return default value with getOrElse', () => {
+            expect(validateName('').getOrElse('anonymous')).toBe('anonymous');
+            expect(validateName('John').getOrElse('anonymous')).toBe('John');
+        });
+    });
+
+    describe('Transformation Methods', () => {
+        it('should map success values and keep errors', () => {
+            expect(Validation.Valid(2).map(x => x * 2).getValue()).toBe(4);
+            expect(Validation.Invalid('failed').map((x: number) => x * 2).getErrors()).toEqual(['failed']);
+        });
+
+        it('should map every error with mapErrors', () => {
+            const result = Validation.Invalid('a', 'b').mapErrors(msg => msg.toUpperCase());
+            expect(result.getErrors()).toEqual(['A', 'B']);
+        });
+
+        it('should stop at the first Invalid in flatMap', () => {
+            const next = jest.fn(validateEmail);
+            const result = validateName('').flatMap(next);
+
+            expect(next).not.toHaveBeenCalled();
+            expect(result.getErrors()).toEqual(['Name is required']);
+        });
+    });
+
+    describe('Accumulating Combinators', () => {
+        it('should accumulate errors of both sides in zip and zipWith', () => {
+            const zipped = validateName('').zip(validateEmail('invalid'));
+            const combined = validateName('John').zipWith(validateEmail('john@example.com'), (name, email) => `${name} <${email}>`);
+
+            expect(zipped.getErrors()).toEqual(['Name is required', 'Email must contain @']);
+            expect(combined.getValue()).toBe('John <john@example.com>');
+        });
+
+        it('should combine a record of heterogeneous validations', () => {
+            const result = Validation.combine({
+                name: validateName('John'),
+                email: validateEmail('john@example.com'),
+                age: validateAge(30)
+            });
+
+            expect(result.isValid()).toBe(true);
+            const value: { name: string; email: string; age: number } = result.getValue();
+            expect(value).toEqual({ name: 'John', email: 'john@example.com', age: 30 });
+        });
+
+        it('should collect every failure when combining a record', () => {
+            const result = Validation.combine({
+                name: validateName(''),
+                email: validateEmail('invalid'),
+                age: validateAge(10)
+            });
+
+            expect(result.isInvalid()).toBe(true);
+            const errors = result.getErrors();
+            expect(errors).toHaveLength(3);
+            expect(errors[0]).toBe('Name is required');
+            expect(errors[1]).toBe('Email must contain @');
+            expect((errors[2] as Error).message).toBe('Must be 18 or older');
+        });
+
+        it('should combine several values with static zipWith', () => {
+            const valid = Validation.zipWith(
+                [validateName('John'), validateEmail('john@example.com'), validateAge(30)],
+                (name, email, age) => ({ name, email, age })
+            );
+            const invalid = Validation.zipWith(
+                [validateName(''), validateEmail('john@example.com'), validateAge(10)],
+                (name, email, age) => ({ name, email, age })
+            );
+
+            expect(valid.getValue()).toEqual({ name: 'John', email: 'john@example.com', age: 30 });
+            expect(invalid.getErrors()).toHaveLength(2);
+        });
+
+        it('should combine a tuple with all()', () => {
+            const result = Validation.all([Validation.Valid(1), Validation.Valid('a')]);
+            const tuple: [number, string] = result.getValue();
+
+            expect(tuple).toEqual([1, 'a']);
+        });
+
+        it('should accumulate errors in traverse', () => {
+            const result = Validation.traverse([1, -2, 3, -4], n =>
+                n > 0 ? Validation.Valid(n) : Validation.Invalid(`Negative: ${n}`)
+            );
+
+            expect(result.getErrors()).toEqual(['Negative: -2', 'Negative: -4']);
+            expect(Validation.traverse([1, 2], n => Validation.Valid(n * 2)).getValue()).toEqual([2, 4]);
+        });
+
+        it('should return Valid empty results for empty inputs', () => {
+            expect(Validation.all([]).getValue()).toEqual([]);
+            expect(Validation.combine({}).getValue()).toEqual({});
+        });
+    });
+
+    describe('Either Interop', () => {
+        it('should convert from Either', () => {
+            expect(Validation.fromEither(Either.Ok(1)).getValue()).toBe(1);
+            expect(Validation.fromEither(Either.Error('failed')).getErrors()).toEqual(['failed']);
+        });
+
+        it('should convert to Either with the accumulated errors', () => {
+            const ok = Validation.Valid(1).toEither();
+            const error = Validation.Invalid('a', 'b').toEither();
+
+            expect(ok.getValue()).toBe(1);
+            expect(error.getError()).toEqual(['a', 'b']);
+        });
+    });
+});